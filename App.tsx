@@ -1,12 +1,12 @@
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateStyleTransferImage, generateMaskedImage } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import ReactCrop, { type Crop, type PercentCrop } from 'react-image-crop';
+import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateStyleTransferImage, generateMaskedImage, generateSegmentationMask, type SegmentationTarget, isAbortError, AIServiceError, toAIServiceError } from './services/geminiService';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
-import AdjustmentPanel, { type ManualAdjustments, defaultAdjustments } from './components/AdjustmentPanel';
+import AdjustmentPanel from './components/AdjustmentPanel';
 import CropPanel from './components/CropPanel';
 import { UndoIcon, RedoIcon, EyeIcon, CompareIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
@@ -15,52 +15,98 @@ import StyleTransferPanel from './components/StyleTransferPanel';
 import BatchProcessingScreen from './components/BatchProcessingScreen';
 import ZoomControls from './components/ZoomControls';
 import MaskPanel from './components/MaskPanel';
-import MaskingCanvas, { type MaskingCanvasRef } from './components/MaskingCanvas';
-
-// Helper to convert a data URL string to a File object
-export const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
-}
-
-type Tab = 'retouch' | 'adjust' | 'filters' | 'mask' | 'crop' | 'style';
+import MaskingCanvas, { type MaskingCanvasRef, type MaskTool } from './components/MaskingCanvas';
+import RetouchPanel from './components/RetouchPanel';
+import MaskToolbar from './components/MaskToolbar';
+import LayersPanel from './components/LayersPanel';
+import LayerStackPreview from './components/LayerStackPreview';
+import ExportDialog from './components/ExportDialog';
+import ErrorBanner from './components/ErrorBanner';
+import HistoryTimeline from './components/HistoryTimeline';
+import AdjustmentPreview from './components/AdjustmentPreview';
+import ClippingOverlay from './components/ClippingOverlay';
+import TransformedImageCanvas from './components/TransformedImageCanvas';
+import { type CropParams, type CropRect, type CropTransform, readCropParams, type ImageSize, identityCropTransform, getTransformedSize, getTurnedSize, getInscribedRect, fitAspect, renderCroppedImage } from './services/cropService';
+import { computeHistogram } from './services/imageAnalysis';
+import { compositeThroughMask } from './services/compositing';
+import { createEditLayer, createLayer, cropLayers, flattenLayers, getEntryLayers } from './services/layerService';
+import { type ExportOptions, renderExport, formatExportFilename, getExportSize } from './services/exportService';
+import { prepareImportedImage } from './services/metadataService';
+import { buildProvenanceManifest, createSidecar, getSidecarFilename } from './services/provenanceService';
+import { bakeAdjustments, defaultAdjustments, isIdentityAdjustments } from './services/adjustmentPipeline';
+import { createHistoryEntry, createHistoryTree, addHistoryNode, selectHistoryNode, getActiveBranch } from './services/historyService';
+import { type HistoryOperation, type HistoryTree, type Layer, type ManualAdjustments } from './types';
+import { createProjectId, saveProject, loadProject, listProjects, deleteProject, type ProjectPanelState, type ProjectRecord, type ProjectSummary } from './services/projectStore';
+
+// Helper to name an image returned by the AI service
+const toImageFile = (image: Blob, filename: string): File =>
+    new File([image], filename, { type: image.type || 'image/png' });
+
+type Tab = 'retouch' | 'adjust' | 'filters' | 'mask' | 'crop' | 'style' | 'layers';
 type AppMode = 'start' | 'single' | 'batch';
 
+// Debounce for persisting the session to IndexedDB while editing
+const PROJECT_AUTOSAVE_DELAY_MS = 800;
+
+// An error shown inline in the single-image editor, leaving history untouched
+interface EditorError {
+  error: AIServiceError;
+  action?: string;
+  retry?: () => void;
+}
+
 const App: React.FC = () => {
   // Global State
   const [appMode, setAppMode] = useState<AppMode>('start');
   const [error, setError] = useState<string | null>(null);
+  const [editorError, setEditorError] = useState<EditorError | null>(null);
   
   // Single Image Mode State
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [historyTree, setHistoryTree] = useState<HistoryTree | null>(null);
+  const [comparisonNodeId, setComparisonNodeId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
   const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
+  // Crops are kept in percent of the transformed image, so they do not depend on its displayed size
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop>();
   const [aspect, setAspect] = useState<number | undefined>();
+  const [cropTransform, setCropTransform] = useState<CropTransform>(identityCropTransform);
+  const [cropSourceSize, setCropSourceSize] = useState<ImageSize | null>(null);
+  // The crop step being re-adjusted; its parent's image is shown instead of the current one
+  const [cropEditNodeId, setCropEditNodeId] = useState<string | null>(null);
   const [isComparing, setIsComparing] = useState<boolean>(false);
   const [isSliderCompareActive, setIsSliderCompareActive] = useState<boolean>(false);
   const [manualAdjustments, setManualAdjustments] = useState<ManualAdjustments>(defaultAdjustments);
+  const [isApplyingAdjustments, setIsApplyingAdjustments] = useState<boolean>(false);
+  const [isApplyingMask, setIsApplyingMask] = useState<boolean>(false);
+  const [isApplyingCrop, setIsApplyingCrop] = useState<boolean>(false);
+  // Pending layer changes, previewed until they are applied as a new step
+  const [draftLayers, setDraftLayers] = useState<Layer[] | null>(null);
+  const [isApplyingLayers, setIsApplyingLayers] = useState<boolean>(false);
+  // The flattened image while the export dialog is open
+  const [exportSource, setExportSource] = useState<File | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  // Pixels currently shown by the adjustment preview, for the histogram and clipping overlays
+  const [previewPixels, setPreviewPixels] = useState<ImageData | null>(null);
+  const [showHighlightClipping, setShowHighlightClipping] = useState<boolean>(false);
+  const [showShadowClipping, setShowShadowClipping] = useState<boolean>(false);
   const imgRef = useRef<HTMLImageElement>(null);
   
   // Batch Mode State
   const [batchFiles, setBatchFiles] = useState<File[]>([]);
 
+  // Project Persistence State
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState<string>('');
+  const [projectCreatedAt, setProjectCreatedAt] = useState<number>(0);
+  const [promptsUsed, setPromptsUsed] = useState<string[]>([]);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  // The unsaved project while an autosave is pending, and the save in progress
+  const projectSnapshotRef = useRef<Omit<ProjectRecord, 'panelState'> | null>(null);
+  const projectSaveRef = useRef<Promise<void>>(Promise.resolve());
+  const projectPanelStateRef = useRef<ProjectPanelState | null>(null);
+
   // Zoom & Pan State
   const [zoom, setZoom] = useState<number>(1);
   const [pan, setPan] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
@@ -74,17 +120,51 @@ const App: React.FC = () => {
   const [brushSize, setBrushSize] = useState<number>(50);
   const [brushHardness, setBrushHardness] = useState<number>(100);
   const [brushMode, setBrushMode] = useState<'brush' | 'erase'>('brush');
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [maskRefineAmount, setMaskRefineAmount] = useState<number>(8);
+  const [showMaskRedOverlay, setShowMaskRedOverlay] = useState<boolean>(false);
   const [maskResetTrigger, setMaskResetTrigger] = useState<number>(0);
-  const [drawnMaskDataUrl, setDrawnMaskDataUrl] = useState<string | null>(null);
+  const [hasMaskSelection, setHasMaskSelection] = useState<boolean>(false);
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const [brushCursorPosition, setBrushCursorPosition] = useState<{ x: number, y: number } | null>(null);
   const [canUndoMaskStroke, setCanUndoMaskStroke] = useState<boolean>(false);
   const [canRedoMaskStroke, setCanRedoMaskStroke] = useState<boolean>(false);
   const maskingCanvasRef = useRef<MaskingCanvasRef>(null);
 
+  // In-flight AI request, so it can be cancelled from the loading overlay
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  // The branch being viewed, as a linear list (lineage of the current step plus its redo states)
+  const history = useMemo(() => historyTree ? getActiveBranch(historyTree) : [], [historyTree]);
+  const historyIndex = historyTree ? history.findIndex(node => node.id === historyTree.currentId) : -1;
+
+  const currentImage = history[historyIndex]?.file ?? null;
+  // Results of async edits attach to the step that was current when they started
+  const currentNodeId = historyTree?.currentId;
+
+  // The adjustment preview also runs with neutral settings in the Adjust tab, to feed the histogram
+  const isAdjustmentPreviewActive = currentImage !== null && (activeTab === 'adjust' || !isIdentityAdjustments(manualAdjustments));
+  const histogram = useMemo(() => previewPixels ? computeHistogram(previewPixels) : null, [previewPixels]);
+
+  useEffect(() => {
+    setPreviewPixels(null);
+  }, [currentImage, isAdjustmentPreviewActive]);
+
+  useEffect(() => {
+    setDraftLayers(null);
+  }, [historyTree?.currentId]);
+
+  // Retouch and the history brush each draw their own selection on the image
+  const isSelectionTab = activeTab === 'retouch' || activeTab === 'mask';
+  useEffect(() => {
+    setHasMaskSelection(false);
+    setCanUndoMaskStroke(false);
+    setCanRedoMaskStroke(false);
+  }, [activeTab]);
+
+  // The slider compares against the original unless another branch was picked for comparison
+  const originalImage = (comparisonNodeId && historyTree?.nodes[comparisonNodeId]?.file) || history[0]?.file || null;
+  const uploadedFileName = history[0]?.file.name ?? 'image';
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
@@ -184,23 +264,130 @@ const App: React.FC = () => {
     setPan({ x: 0, y: 0 });
   }, []);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // Abort whatever is still running when the editor unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Starts a cancellable AI request, aborting any request still in flight.
+  const beginRequest = useCallback((): AbortController => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    setEditorError(null);
+    return controller;
+  }, []);
+
+  const endRequest = useCallback((controller: AbortController) => {
+    // A newer request may have replaced this one; only the latest owns the loading state.
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleCancelRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const showEditorError = useCallback((err: unknown, action?: string, retry?: () => void) => {
+    setEditorError({ error: toAIServiceError(err), action, retry });
+  }, []);
+
+  const showValidationError = useCallback((message: string) => {
+    setEditorError({ error: new AIServiceError('invalid_request', message) });
+  }, []);
+
+  const refreshRecentProjects = useCallback(() => {
+    listProjects()
+      .then(setRecentProjects)
+      .catch(e => console.warn('Failed to list recent projects', e));
+  }, []);
+
+  // Panel settings are saved with the project but don't trigger a save on their own
+  projectPanelStateRef.current = { activeTab, manualAdjustments, brushSize, brushHardness, brushMode };
+
+  // Writes out a pending autosave immediately, e.g. before leaving the editor.
+  // Saves run one after another, so an older snapshot never overwrites a newer one.
+  const flushProjectSave = useCallback((): Promise<void> => {
+    const snapshot = projectSnapshotRef.current;
+    const panelState = projectPanelStateRef.current;
+    projectSnapshotRef.current = null;
+    if (!snapshot || !panelState) return projectSaveRef.current;
+    const save = projectSaveRef.current
+      .then(() => saveProject({ ...snapshot, panelState }))
+      .catch(e => console.warn('Failed to save project', e));
+    projectSaveRef.current = save;
+    return save;
+  }, []);
+
+  // Autosave the single-image session whenever its history or project details change
+  useEffect(() => {
+    if (appMode !== 'single' || !projectId || !historyTree) {
+      projectSnapshotRef.current = null;
+      return;
+    }
+    projectSnapshotRef.current = {
+      id: projectId,
+      name: projectName,
+      createdAt: projectCreatedAt,
+      updatedAt: Date.now(),
+      historyTree,
+      prompts: promptsUsed,
+    };
+    const timer = setTimeout(flushProjectSave, PROJECT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [appMode, projectId, projectName, projectCreatedAt, historyTree, promptsUsed, flushProjectSave]);
+
+  // Don't lose a pending autosave when the tab is hidden or closed
+  useEffect(() => {
+    const flushWhenHidden = () => {
+      if (document.visibilityState === 'hidden') flushProjectSave();
+    };
+    const flushOnUnload = () => { flushProjectSave(); };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('beforeunload', flushOnUnload);
+    return () => {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('beforeunload', flushOnUnload);
+    };
+  }, [flushProjectSave]);
+
+  useEffect(() => {
+    if (appMode === 'start') refreshRecentProjects();
+  }, [appMode, refreshRecentProjects]);
+
+  const addImageToHistory = useCallback((
+    newImageFile: File,
+    operation: HistoryOperation,
+    details: { prompt?: string, params?: Record<string, unknown>, parentId?: string, layer?: Layer, layers?: Layer[] } = {},
+  ) => {
+    if (details.prompt) {
+      setPromptsUsed(prev => [...prev, details.prompt!]);
+    }
+    // Editing from an earlier step starts a new branch rather than discarding the redo states
+    setHistoryTree(tree => {
+      // The session the edit started in was closed or replaced while it ran
+      if (details.parentId && !tree?.nodes[details.parentId]) return tree;
+      // A new layer goes on top of the parent's stack; steps without one start a new stack
+      const parent = tree?.nodes[details.parentId ?? tree.currentId];
+      const layers = details.layers ?? (details.layer && parent ? [...getEntryLayers(parent), details.layer] : undefined);
+      const entry = createHistoryEntry(newImageFile, operation, { ...details, layers, metadata: parent?.metadata });
+      return tree ? addHistoryNode(tree, entry, details.parentId) : createHistoryTree(entry);
+    });
     // Reset transient states after an action
     setCrop(undefined);
     setCompletedCrop(undefined);
+    setCropTransform(identityCropTransform);
+    setCropEditNodeId(null);
     setManualAdjustments(defaultAdjustments);
-    setDrawnMaskDataUrl(null);
+    setHasMaskSelection(false);
     setBrushSourceIndex(null);
     setMaskResetTrigger(t => t + 1);
     setCanUndoMaskStroke(false);
     setCanRedoMaskStroke(false);
-  }, [history, historyIndex]);
+  }, []);
 
-  const handleFileSelect = (files: FileList | null) => {
+  const handleFileSelect = async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     setError(null);
@@ -213,303 +400,533 @@ const App: React.FC = () => {
         return;
     }
     
-    if (validFiles.length < files.length) {
-        setError("Some files were not supported and have been ignored. Please only use JPG, PNG, GIF, or WEBP formats.");
-    }
+    const unsupportedMessage = validFiles.length < files.length
+        ? "Some files were not supported and have been ignored. Please only use JPG, PNG, GIF, or WEBP formats."
+        : null;
         
     if (validFiles.length === 1) {
-        setHistory([validFiles[0]]);
-        setHistoryIndex(0);
-        setEditHotspot(null);
-        setDisplayHotspot(null);
+        // Upright pixels from here on; the camera metadata is kept with the history for export
+        const { file, metadata } = await prepareImportedImage(validFiles[0]);
+        setHistoryTree(createHistoryTree(createHistoryEntry(file, 'ORIGINAL', { metadata: metadata ?? undefined })));
+        setComparisonNodeId(null);
         setActiveTab('retouch');
         setCrop(undefined);
         setCompletedCrop(undefined);
+        setCropTransform(identityCropTransform);
+        setCropEditNodeId(null);
         setManualAdjustments(defaultAdjustments);
         handleZoomReset();
+        setEditorError(unsupportedMessage ? { error: new AIServiceError('invalid_image', unsupportedMessage) } : null);
+        setProjectId(createProjectId());
+        setProjectName(validFiles[0].name);
+        setProjectCreatedAt(Date.now());
+        setPromptsUsed([]);
         setAppMode('single');
     } else {
+        if (unsupportedMessage) setError(unsupportedMessage);
         setBatchFiles(validFiles);
         setAppMode('batch');
         // Reset single-mode state
-        setHistory([]);
-        setHistoryIndex(-1);
+        setHistoryTree(null);
+        setProjectId(null);
     }
   };
 
+  const handleOpenProject = useCallback(async (id: string) => {
+    setError(null);
+    try {
+        const project = await loadProject(id);
+        if (!project || !project.historyTree) {
+            setError('This project could not be found. It may have been removed.');
+            refreshRecentProjects();
+            return;
+        }
+        const { panelState } = project;
+        setProjectId(project.id);
+        setProjectName(project.name);
+        setProjectCreatedAt(project.createdAt);
+        setPromptsUsed(project.prompts);
+        setHistoryTree(project.historyTree);
+        setComparisonNodeId(null);
+        setActiveTab(panelState.activeTab as Tab);
+        setManualAdjustments({ ...defaultAdjustments, ...panelState.manualAdjustments });
+        setBrushSize(panelState.brushSize);
+        setBrushHardness(panelState.brushHardness);
+        setBrushMode(panelState.brushMode);
+        setCrop(undefined);
+        setCompletedCrop(undefined);
+        setCropTransform(identityCropTransform);
+        setCropEditNodeId(null);
+        setEditorError(null);
+        handleZoomReset();
+        setAppMode('single');
+    } catch (e) {
+        console.error('Failed to open project', e);
+        setError('Could not open the project. Your browser storage may be unavailable.');
+    }
+  }, [handleZoomReset, refreshRecentProjects]);
+
+  const handleDeleteProject = useCallback((id: string) => {
+    // Drop a pending autosave of the project and wait for one in progress, so neither recreates it
+    if (projectSnapshotRef.current?.id === id) projectSnapshotRef.current = null;
+    projectSaveRef.current
+      .then(() => deleteProject(id))
+      .catch(e => console.warn('Failed to delete project', e))
+      .finally(refreshRecentProjects);
+  }, [refreshRecentProjects]);
+
   const handleGenerate = useCallback(async () => {
     if (!currentImage) {
-      setError('No image loaded to edit.');
+      showValidationError('No image loaded to edit.');
       return;
     }
     
     if (!prompt.trim()) {
-        setError('Please enter a description for your edit.');
+        showValidationError('Please enter a description for your edit.');
         return;
     }
 
-    if (!editHotspot) {
-        setError('Please click on the image to select an area to edit.');
+    // The mask is only encoded now that it is used
+    const maskFile = hasMaskSelection ? await maskingCanvasRef.current?.exportMask() : null;
+    if (!maskFile) {
+        showValidationError('Please select an area of the image to edit.');
         return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    const controller = beginRequest();
     
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspot);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
-        setEditHotspot(null);
-        setDisplayHotspot(null);
+        const editedImage = await generateEditedImage(currentImage, prompt, maskFile, controller.signal);
+        // Only the selected pixels may change, whatever the model returned outside the selection
+        const editedFile = toImageFile(editedImage, `edited-${Date.now()}.png`);
+        const newImageFile = await compositeThroughMask(currentImage, editedFile, maskFile);
+        const layer = await createEditLayer(`Retouch: ${prompt}`, currentImage, newImageFile);
+        // Cancel may have been pressed while the result was being composited
+        if (controller.signal.aborted) return;
+        addImageToHistory(newImageFile, 'EDIT', { parentId: currentNodeId, prompt, layer });
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to generate the image. ${errorMessage}`);
+        if (isAbortError(err)) return;
+        showEditorError(err, 'generate the image', handleGenerate);
         console.error(err);
     } finally {
-        setIsLoading(false);
+        endRequest(controller);
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory]);
+  }, [currentImage, currentNodeId, prompt, hasMaskSelection, addImageToHistory, beginRequest, endRequest, showEditorError, showValidationError]);
   
   const handleApplyFilter = useCallback(async (filterPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply a filter to.');
+      showValidationError('No image loaded to apply a filter to.');
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
+    const controller = beginRequest();
     
     try {
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const filteredImage = await generateFilteredImage(currentImage, filterPrompt, false, controller.signal);
+        const newImageFile = await compositeThroughMask(currentImage, toImageFile(filteredImage, `filtered-${Date.now()}.png`), null);
+        const layer = await createEditLayer(`Filter: ${filterPrompt}`, currentImage, newImageFile);
+        if (controller.signal.aborted) return;
+        addImageToHistory(newImageFile, 'FILTER', { parentId: currentNodeId, prompt: filterPrompt, layer });
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the filter. ${errorMessage}`);
+        if (isAbortError(err)) return;
+        showEditorError(err, 'apply the filter', () => handleApplyFilter(filterPrompt));
         console.error(err);
     } finally {
-        setIsLoading(false);
+        endRequest(controller);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, currentNodeId, addImageToHistory, beginRequest, endRequest, showEditorError, showValidationError]);
 
   const handleApplyStyleTransfer = useCallback(async (styleImage: File, prompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply a style to.');
+      showValidationError('No image loaded to apply a style to.');
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
+    const controller = beginRequest();
     
     try {
-        const stylizedImageUrl = await generateStyleTransferImage(currentImage, styleImage, prompt);
-        const newImageFile = dataURLtoFile(stylizedImageUrl, `stylized-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const stylizedImage = await generateStyleTransferImage(currentImage, styleImage, prompt, controller.signal);
+        const newImageFile = await compositeThroughMask(currentImage, toImageFile(stylizedImage, `stylized-${Date.now()}.png`), null);
+        const layer = await createEditLayer(`Style: ${styleImage.name}`, currentImage, newImageFile);
+        if (controller.signal.aborted) return;
+        addImageToHistory(newImageFile, 'STYLE_TRANSFER', {
+            parentId: currentNodeId,
+            prompt,
+            params: { styleImageName: styleImage.name },
+            layer,
+        });
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the style. ${errorMessage}`);
+        if (isAbortError(err)) return;
+        showEditorError(err, 'apply the style', () => handleApplyStyleTransfer(styleImage, prompt));
         console.error(err);
     } finally {
-        setIsLoading(false);
+        endRequest(controller);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, currentNodeId, addImageToHistory, beginRequest, endRequest, showEditorError, showValidationError]);
 
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply an adjustment to.');
+      showValidationError('No image loaded to apply an adjustment to.');
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
+    const controller = beginRequest();
     
     try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const adjustedImage = await generateAdjustedImage(currentImage, adjustmentPrompt, false, controller.signal);
+        const newImageFile = await compositeThroughMask(currentImage, toImageFile(adjustedImage, `adjusted-${Date.now()}.png`), null);
+        const layer = await createEditLayer(`Adjustment: ${adjustmentPrompt}`, currentImage, newImageFile);
+        if (controller.signal.aborted) return;
+        addImageToHistory(newImageFile, 'ADJUSTMENT', { parentId: currentNodeId, prompt: adjustmentPrompt, layer });
+    } catch (err) {
+        if (isAbortError(err)) return;
+        showEditorError(err, 'apply the adjustment', () => handleApplyAdjustment(adjustmentPrompt));
+        console.error(err);
+    } finally {
+        endRequest(controller);
+    }
+  }, [currentImage, currentNodeId, addImageToHistory, beginRequest, endRequest, showEditorError, showValidationError]);
+
+  // Manual adjustments are rendered locally, so they cost nothing and match the preview pixel for pixel
+  const handleApplyManualAdjustments = useCallback(async () => {
+    if (!currentImage) {
+      showValidationError('No image loaded to apply adjustments to.');
+      return;
+    }
+    if (isIdentityAdjustments(manualAdjustments)) return;
+
+    setIsApplyingAdjustments(true);
+    try {
+        const adjustedFile = await bakeAdjustments(currentImage, manualAdjustments);
+        addImageToHistory(adjustedFile, 'MANUAL_ADJUSTMENT', {
+            parentId: currentNodeId,
+            params: { adjustments: manualAdjustments },
+            layer: createLayer('adjustment', 'Manual Adjust', { adjustments: manualAdjustments }),
+        });
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the adjustment. ${errorMessage}`);
         console.error(err);
+        showValidationError('The adjustments could not be applied to this image.');
     } finally {
-        setIsLoading(false);
+        setIsApplyingAdjustments(false);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, currentNodeId, manualAdjustments, addImageToHistory, showValidationError]);
 
+  // Restoring pixels from an earlier step is a plain alpha composite, so it runs locally
   const handleApplyMask = useCallback(async () => {
-    if (!currentImage || brushSourceIndex === null || !drawnMaskDataUrl) {
-        setError('Please select a history version and draw a mask on the image first.');
+    const maskFile = hasMaskSelection ? await maskingCanvasRef.current?.exportMask() : null;
+    if (!currentImage || brushSourceIndex === null || !maskFile) {
+        showValidationError('Please select a history version and draw a mask on the image first.');
         return;
     }
 
-    setIsLoading(true);
-    setError(null);
-    
+    setIsApplyingMask(true);
     try {
-        const sourceImage = history[brushSourceIndex];
-        const maskFile = dataURLtoFile(drawnMaskDataUrl, `mask-${Date.now()}.png`);
-
-        const combinedImageUrl = await generateMaskedImage(currentImage, sourceImage, maskFile);
-        const newImageFile = dataURLtoFile(combinedImageUrl, `masked-${Date.now()}.png`);
-        
-        addImageToHistory(newImageFile);
-        
+        const source = history[brushSourceIndex];
+        const newImageFile = await compositeThroughMask(currentImage, source.file, maskFile, { featherRadius: 0 });
+        addImageToHistory(newImageFile, 'MASK_COMPOSITION', {
+            parentId: currentNodeId,
+            params: { sourceNodeId: source.id, sourceStep: brushSourceIndex },
+            layer: createLayer('mask', `History Brush: step ${brushSourceIndex}`, { image: source.file, mask: maskFile, featherRadius: 0 }),
+        });
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the history brush. ${errorMessage}`);
         console.error(err);
+        showValidationError('The history brush could not be applied to this image.');
     } finally {
-        setIsLoading(false);
+        setIsApplyingMask(false);
     }
-  }, [currentImage, brushSourceIndex, drawnMaskDataUrl, history, addImageToHistory]);
+  }, [currentImage, currentNodeId, brushSourceIndex, hasMaskSelection, history, addImageToHistory, showValidationError]);
 
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) {
-        setError('Please select an area to crop.');
+  // Optional refine: the model blends the restored area into its surroundings
+  const handleRefineMask = useCallback(async () => {
+    const maskFile = hasMaskSelection ? await maskingCanvasRef.current?.exportMask() : null;
+    if (!currentImage || brushSourceIndex === null || !maskFile) {
+        showValidationError('Please select a history version and draw a mask on the image first.');
         return;
     }
 
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
+    const controller = beginRequest();
     
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
+    try {
+        const source = history[brushSourceIndex];
+
+        const combinedImage = await generateMaskedImage(currentImage, source.file, maskFile, controller.signal);
+        const combinedFile = toImageFile(combinedImage, `masked-${Date.now()}.png`);
+        const newImageFile = await compositeThroughMask(currentImage, combinedFile, maskFile);
+        const layer = createLayer('mask', `History Brush: step ${brushSourceIndex} (AI blend)`, { image: combinedFile, mask: maskFile });
+        if (controller.signal.aborted) return;
+
+        addImageToHistory(newImageFile, 'MASK_COMPOSITION', {
+            parentId: currentNodeId,
+            params: { sourceNodeId: source.id, sourceStep: brushSourceIndex, aiBlend: true },
+            layer,
+        });
+        
+    } catch (err) {
+        if (isAbortError(err)) return;
+        showEditorError(err, 'blend the history brush', handleRefineMask);
+        console.error(err);
+    } finally {
+        endRequest(controller);
+    }
+  }, [currentImage, currentNodeId, brushSourceIndex, hasMaskSelection, history, addImageToHistory, beginRequest, endRequest, showEditorError, showValidationError]);
+
+  // Loads an AI segmentation as the selection; it stays editable with the mask tools
+  const handleAutoSelect = useCallback(async (target: SegmentationTarget) => {
+    if (!currentImage) {
+      showValidationError('No image loaded to select from.');
+      return;
+    }
 
-    if (!ctx) {
-        setError('Could not process the crop.');
+    const controller = beginRequest();
+
+    try {
+        const maskImage = await generateSegmentationMask(currentImage, target, controller.signal);
+        await maskingCanvasRef.current?.loadMask(maskImage);
+    } catch (err) {
+        if (isAbortError(err)) return;
+        showEditorError(err, `select the ${target}`, () => handleAutoSelect(target));
+        console.error(err);
+    } finally {
+        endRequest(controller);
+    }
+  }, [currentImage, beginRequest, endRequest, showEditorError, showValidationError]);
+
+  const handleApplyLayers = useCallback(async () => {
+    if (!draftLayers) return;
+
+    setIsApplyingLayers(true);
+    try {
+        const flattened = await flattenLayers(draftLayers);
+        addImageToHistory(flattened, 'LAYERS', { parentId: currentNodeId, layers: draftLayers });
+    } catch (err) {
+        console.error(err);
+        showValidationError('The layer changes could not be applied.');
+    } finally {
+        setIsApplyingLayers(false);
+    }
+  }, [draftLayers, currentNodeId, addImageToHistory, showValidationError]);
+
+  const cropEditNode = cropEditNodeId ? historyTree?.nodes[cropEditNodeId] ?? null : null;
+  const cropEditParentId = cropEditNode?.parentId ?? null;
+  const cropSourceImage = cropEditParentId ? historyTree?.nodes[cropEditParentId]?.file ?? null : currentImage;
+  const currentNode = historyTree ? historyTree.nodes[historyTree.currentId] : null;
+  const canReadjustCrop = currentNode?.operation === 'CROP' && !!currentNode.parentId && readCropParams(currentNode.params) !== null;
+  const cropBounds = cropSourceSize ? getTransformedSize(cropSourceSize, cropTransform) : null;
+  const turnedCropSize = cropSourceSize ? getTurnedSize(cropSourceSize, cropTransform) : null;
+
+  const toPercentCrop = useCallback((rect: CropRect, bounds: ImageSize): PercentCrop => ({
+    unit: '%',
+    x: rect.x / bounds.width * 100,
+    y: rect.y / bounds.height * 100,
+    width: rect.width / bounds.width * 100,
+    height: rect.height / bounds.height * 100,
+  }), []);
+
+  const toNaturalRect = useCallback((percentCrop: PercentCrop, bounds: ImageSize): CropRect => ({
+    x: Math.round(percentCrop.x / 100 * bounds.width),
+    y: Math.round(percentCrop.y / 100 * bounds.height),
+    width: Math.round(percentCrop.width / 100 * bounds.width),
+    height: Math.round(percentCrop.height / 100 * bounds.height),
+  }), []);
+
+  const updateCrop = useCallback((percentCrop: PercentCrop | undefined) => {
+    setCrop(percentCrop);
+    setCompletedCrop(percentCrop);
+  }, []);
+
+  const handleSetAspect = useCallback((newAspect: number | undefined) => {
+    setAspect(newAspect);
+    if (!newAspect || !cropSourceSize) return;
+    // Start from the largest selection of the new shape that has no empty corners
+    const rect = fitAspect(getInscribedRect(cropSourceSize, cropTransform), newAspect);
+    updateCrop(toPercentCrop(rect, getTransformedSize(cropSourceSize, cropTransform)));
+  }, [cropSourceSize, cropTransform, updateCrop, toPercentCrop]);
+
+  const handleCropTransformChange = useCallback((transform: CropTransform) => {
+    setCropTransform(transform);
+    if (!cropSourceSize) return;
+    // Straightening leaves empty corners, so the selection snaps to the largest clean area
+    const bounds = getTransformedSize(cropSourceSize, transform);
+    const inscribed = getInscribedRect(cropSourceSize, transform);
+    updateCrop(toPercentCrop(aspect ? fitAspect(inscribed, aspect) : inscribed, bounds));
+  }, [cropSourceSize, aspect, updateCrop, toPercentCrop]);
+
+  const handleCropSizeChange = useCallback((size: ImageSize) => {
+    if (!cropBounds) return;
+    const current = completedCrop ? toNaturalRect(completedCrop, cropBounds) : null;
+    // Keep the selection centred where it was, but inside the image
+    const centerX = current ? current.x + current.width / 2 : cropBounds.width / 2;
+    const centerY = current ? current.y + current.height / 2 : cropBounds.height / 2;
+    const x = Math.min(Math.max(0, Math.round(centerX - size.width / 2)), cropBounds.width - size.width);
+    const y = Math.min(Math.max(0, Math.round(centerY - size.height / 2)), cropBounds.height - size.height);
+    updateCrop(toPercentCrop({ x, y, width: size.width, height: size.height }, cropBounds));
+  }, [cropBounds, completedCrop, updateCrop, toPercentCrop, toNaturalRect]);
+
+  // Reopens the current crop step on its parent's image with the crop it was made with
+  const handleReadjustCrop = useCallback(async () => {
+    if (!historyTree || !canReadjustCrop) return;
+    const node = historyTree.nodes[historyTree.currentId];
+    const parentFile = historyTree.nodes[node.parentId!].file;
+    const params = readCropParams(node.params)!;
+    const transform: CropTransform = {
+      rotation: params.rotation,
+      quarterTurns: params.quarterTurns,
+      flipHorizontal: params.flipHorizontal,
+      flipVertical: params.flipVertical,
+    };
+    try {
+        const bitmap = await createImageBitmap(parentFile);
+        const size = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        setCropEditNodeId(node.id);
+        setCropTransform(transform);
+        setCropSourceSize(size);
+        setAspect(params.aspect);
+        updateCrop(toPercentCrop(params, getTransformedSize(size, transform)));
+    } catch (err) {
+        console.error(err);
+        showValidationError('The image this crop was made from could not be loaded.');
+    }
+  }, [historyTree, canReadjustCrop, updateCrop, toPercentCrop, showValidationError]);
+
+  const handleCancelReadjustCrop = useCallback(() => {
+    setCropEditNodeId(null);
+    setCropTransform(identityCropTransform);
+    updateCrop(undefined);
+  }, [updateCrop]);
+
+  const handleApplyCrop = useCallback(async () => {
+    if (!cropSourceImage || !completedCrop || !cropSourceSize) {
+        showValidationError('Please select an area to crop.');
         return;
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile);
+    const rect = toNaturalRect(completedCrop, getTransformedSize(cropSourceSize, cropTransform));
+    setIsApplyingCrop(true);
+    try {
+        // Always rendered from the source image in one pass, so re-adjusting a crop does not compound losses
+        const newImageFile = await renderCroppedImage(cropSourceImage, cropTransform, rect);
+        const params: CropParams = { ...rect, ...cropTransform, aspect };
+        // A re-adjusted crop becomes a sibling of the step it replaces
+        const parentId = cropEditParentId ?? currentNodeId;
+        const parent = parentId ? historyTree?.nodes[parentId] : undefined;
+        // The parent's layers are cropped too, so they stay editable
+        const layers = parent?.layers ? await cropLayers(parent.layers, cropSourceSize, cropTransform, rect) : undefined;
+        addImageToHistory(newImageFile, 'CROP', { params, parentId, layers });
+    } catch (err) {
+        console.error(err);
+        showValidationError('Could not process the crop.');
+    } finally {
+        setIsApplyingCrop(false);
+    }
+  }, [cropSourceImage, cropEditParentId, currentNodeId, historyTree, completedCrop, cropSourceSize, cropTransform, aspect, addImageToHistory, showValidationError, toNaturalRect]);
 
-  }, [completedCrop, addImageToHistory]);
+  // Moves to any node in the history tree (any branch), clearing per-step transient state
+  const handleSelectNode = useCallback((id: string) => {
+    if (!historyTree || id === historyTree.currentId || !historyTree.nodes[id]) return;
+    setHistoryTree(selectHistoryNode(historyTree, id));
+    setCropEditNodeId(null);
+    setManualAdjustments(defaultAdjustments);
+    setBrushSourceIndex(null);
+    handleZoomReset();
+  }, [historyTree, handleZoomReset]);
+
+  const handleGoToStep = useCallback((index: number) => {
+    const node = history[index];
+    if (node) handleSelectNode(node.id);
+  }, [history, handleSelectNode]);
+
+  const handleCompareWithNode = useCallback((id: string | null) => {
+    setComparisonNodeId(id);
+    setIsSliderCompareActive(id !== null);
+  }, []);
 
   const handleUndo = useCallback(() => {
-    if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
-      setManualAdjustments(defaultAdjustments);
-      handleZoomReset();
-    }
-  }, [canUndo, historyIndex, handleZoomReset]);
+    if (canUndo) handleGoToStep(historyIndex - 1);
+  }, [canUndo, historyIndex, handleGoToStep]);
   
   const handleRedo = useCallback(() => {
-    if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
-      setManualAdjustments(defaultAdjustments);
-      handleZoomReset();
-    }
-  }, [canRedo, historyIndex, handleZoomReset]);
+    if (canRedo) handleGoToStep(historyIndex + 1);
+  }, [canRedo, historyIndex, handleGoToStep]);
 
   const handleReset = useCallback(() => {
-    if (history.length > 0) {
-      setHistoryIndex(0);
-      setError(null);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+    if (historyTree) {
+      handleSelectNode(historyTree.rootId);
+      setEditorError(null);
       setIsSliderCompareActive(false);
       setManualAdjustments(defaultAdjustments);
       handleZoomReset();
     }
-  }, [history, handleZoomReset]);
+  }, [historyTree, handleSelectNode, handleZoomReset]);
 
   const handleStartOver = useCallback(() => {
-      setHistory([]);
-      setHistoryIndex(-1);
+      abortControllerRef.current?.abort();
+      // The session stays in IndexedDB and can be reopened from "Recent projects"
+      flushProjectSave().finally(refreshRecentProjects);
+      setProjectId(null);
+      setHistoryTree(null);
+      setComparisonNodeId(null);
       setError(null);
+      setEditorError(null);
       setPrompt('');
-      setEditHotspot(null);
-      setDisplayHotspot(null);
       setIsSliderCompareActive(false);
       setManualAdjustments(defaultAdjustments);
       setBatchFiles([]);
       handleZoomReset();
       setAppMode('start');
-  }, [handleZoomReset]);
-
-  const handleDownload = useCallback(() => {
-      if (currentImage) {
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `vixel-ai-edited-${currentImage.name}`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(link.href);
+  }, [handleZoomReset, flushProjectSave, refreshRecentProjects]);
+
+  const handleDownload = useCallback(async () => {
+      if (!currentImage || !currentNode) return;
+      try {
+          // The export is flattened from the full layer stack of the current step
+          setExportSource(currentNode.layers ? await flattenLayers(currentNode.layers) : currentImage);
+      } catch (err) {
+          console.error(err);
+          showValidationError('The image could not be prepared for download.');
       }
-  }, [currentImage]);
-
-  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch' || didPanRef.current || isSpacebarDown) return;
-    
-    const img = e.currentTarget;
-    const rect = img.getBoundingClientRect();
-
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-    
-    const xOnUnscaled = offsetX / zoom;
-    const yOnUnscaled = offsetY / zoom;
-    
-    setDisplayHotspot({ x: xOnUnscaled, y: yOnUnscaled });
-
-    const { naturalWidth, naturalHeight } = img;
-    const imgDOMWidth = rect.width / zoom;
-    const scaleToNatural = naturalWidth / imgDOMWidth;
-
-    const originalX = Math.round(xOnUnscaled * scaleToNatural);
-    const originalY = Math.round(yOnUnscaled * scaleToNatural);
-
-    setEditHotspot({ x: originalX, y: originalY });
-  };
-
-  const generateFilterStyle = (adjustments: ManualAdjustments): React.CSSProperties => {
-    const { brightness, contrast, saturation, hue } = adjustments;
-    const filters: string[] = [];
-
-    if (brightness !== 100) filters.push(`brightness(${brightness}%)`);
-    if (contrast !== 100) filters.push(`contrast(${contrast}%)`);
-    if (saturation !== 100) filters.push(`saturate(${saturation}%)`);
-    if (hue !== 0) filters.push(`hue-rotate(${hue}deg)`);
-
-    if (filters.length === 0) {
-        return {};
-    }
-    
-    return {
-        filter: filters.join(' ')
-    };
-  };
+  }, [currentImage, currentNode, showValidationError]);
+
+  const handleExport = useCallback(async (options: ExportOptions) => {
+      if (!exportSource || !historyTree) return;
+      setIsExporting(true);
+      try {
+          const filename = formatExportFilename(options.filenameTemplate, {
+              name: uploadedFileName,
+              size: getExportSize(imageDimensions, options.resize),
+              format: options.format,
+          });
+          // Every step that led to this image, for disclosure of the AI edits
+          const provenance = buildProvenanceManifest(historyTree, { sourceFile: uploadedFileName, exportedFile: filename });
+          const blob = await renderExport(exportSource, options, {
+              metadata: currentNode?.metadata ?? null,
+              provenance,
+              // The upload carries the colour profile; edits are bare canvas output
+              profileSource: historyTree.nodes[historyTree.rootId].file,
+          });
+
+          const download = (file: Blob, name: string) => {
+              const link = document.createElement('a');
+              link.href = URL.createObjectURL(file);
+              link.download = name;
+              document.body.appendChild(link);
+              link.click();
+              document.body.removeChild(link);
+              URL.revokeObjectURL(link.href);
+          };
+          download(blob, filename);
+          if (options.saveSidecar) download(createSidecar(provenance), getSidecarFilename(filename));
+          setExportSource(null);
+      } catch (err) {
+          console.error(err);
+          showValidationError('The image could not be exported.');
+      } finally {
+          setIsExporting(false);
+      }
+  }, [exportSource, historyTree, currentNode, uploadedFileName, imageDimensions, showValidationError]);
 
-  const imageStyle = generateFilterStyle(manualAdjustments);
+  const handleCloseExport = useCallback(() => setExportSource(null), []);
 
   const ZOOM_STEP = 0.2;
   const handleZoom = (newZoomLevel: number) => {
@@ -537,7 +954,7 @@ const App: React.FC = () => {
   const handleZoomOut = () => handleZoom(zoom - ZOOM_STEP);
 
   const handlePanStart = (e: React.MouseEvent | React.TouchEvent) => {
-    const isPannable = (zoom > 1 || isSpacebarDown) && activeTab !== 'crop' && activeTab !== 'mask' && !isSliderCompareActive;
+    const isPannable = (zoom > 1 || isSpacebarDown) && activeTab !== 'crop' && !isSelectionTab && !isSliderCompareActive;
     if (!isPannable) return;
     
     e.preventDefault();
@@ -592,7 +1009,8 @@ const App: React.FC = () => {
   }, [zoom, pan, activeTab, isSliderCompareActive, getClampedPan]);
 
   const onImageLoad = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
-      setImageDimensions({ width: e.currentTarget.clientWidth, height: e.currentTarget.clientHeight });
+      // Masks are authored at the image's natural resolution, whatever its on-screen size
+      setImageDimensions({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight });
   };
 
   const handleUndoMaskStroke = () => {
@@ -613,7 +1031,7 @@ const App: React.FC = () => {
         )
     }
 
-    if (error) {
+    if (error && appMode !== 'single') {
        return (
            <div className="text-center animate-fade-in bg-red-100 border border-red-300 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
             <h2 className="text-2xl font-bold text-red-800">An Error Occurred</h2>
@@ -629,19 +1047,45 @@ const App: React.FC = () => {
     }
     
     if (appMode === 'start') {
-      return <StartScreen onFileSelect={handleFileSelect} />;
+      return (
+        <StartScreen
+          onFileSelect={handleFileSelect}
+          recentProjects={recentProjects}
+          onOpenProject={handleOpenProject}
+          onDeleteProject={handleDeleteProject}
+        />
+      );
     }
     
     if (appMode === 'batch') {
         return <BatchProcessingScreen files={batchFiles} onExit={handleStartOver} />;
     }
 
-    const isPannable = (zoom > 1 || isSpacebarDown) && activeTab !== 'crop' && activeTab !== 'mask' && !isSliderCompareActive;
+    const isPannable = (zoom > 1 || isSpacebarDown) && activeTab !== 'crop' && !isSelectionTab && !isSliderCompareActive;
     
     let cursorClass = '';
-    if (activeTab === 'mask') cursorClass = 'cursor-none';
+    if (isSelectionTab) cursorClass = maskTool === 'brush' ? 'cursor-none' : 'cursor-crosshair';
     else if (isPannable) cursorClass = isPanning ? 'cursor-grabbing' : 'cursor-grab';
 
+    const maskToolbar = (
+        <MaskToolbar
+            tool={maskTool}
+            onToolChange={setMaskTool}
+            brushMode={brushMode}
+            onBrushModeChange={setBrushMode}
+            refineAmount={maskRefineAmount}
+            onRefineAmountChange={setMaskRefineAmount}
+            onInvert={() => maskingCanvasRef.current?.invert()}
+            onGrow={() => maskingCanvasRef.current?.expand(maskRefineAmount)}
+            onShrink={() => maskingCanvasRef.current?.expand(-maskRefineAmount)}
+            onFeather={() => maskingCanvasRef.current?.feather(maskRefineAmount)}
+            onAutoSelect={handleAutoSelect}
+            showRedOverlay={showMaskRedOverlay}
+            onShowRedOverlayChange={setShowMaskRedOverlay}
+            isLoading={isLoading || isApplyingMask}
+        />
+    );
+
     const imageDisplay = (
        <div 
         className={`relative w-full rounded-xl overflow-hidden ${cursorClass}`}
@@ -649,7 +1093,7 @@ const App: React.FC = () => {
         onMouseDown={handlePanStart}
         onMouseMove={(e) => {
             handlePanMove(e);
-            if(activeTab === 'mask') {
+            if(isSelectionTab) {
                 const rect = e.currentTarget.getBoundingClientRect();
                 setBrushCursorPosition({ x: e.clientX - rect.left, y: e.clientY - rect.top });
             }
@@ -657,7 +1101,7 @@ const App: React.FC = () => {
         onMouseUp={handlePanEnd}
         onMouseLeave={() => {
             handlePanEnd();
-            if (activeTab === 'mask') setBrushCursorPosition(null);
+            if (isSelectionTab) setBrushCursorPosition(null);
         }}
         onTouchStart={handlePanStart}
         onTouchMove={handlePanMove}
@@ -686,36 +1130,50 @@ const App: React.FC = () => {
                 src={currentImageUrl!}
                 alt="Current"
                 onLoad={onImageLoad}
-                onClick={handleImageClick}
-                style={imageStyle}
-                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${(activeTab === 'retouch' && !isPannable) ? 'cursor-crosshair' : ''}`}
+                className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'}`}
                 draggable={false}
             />
-             {displayHotspot && !isLoading && activeTab === 'retouch' && !isSliderCompareActive && (
-                <div 
-                    className="absolute rounded-full w-6 h-6 bg-purple-500/50 border-2 border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
-                    style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}
-                >
-                    <div className="absolute inset-0 rounded-full w-full h-full animate-ping bg-purple-400"></div>
-                </div>
+            {isAdjustmentPreviewActive && currentImage && (
+                <AdjustmentPreview
+                    image={currentImage}
+                    adjustments={manualAdjustments}
+                    onRender={setPreviewPixels}
+                    className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'}`}
+                />
             )}
-             {activeTab === 'mask' && !isLoading && imageDimensions.width > 0 && (
+            {activeTab === 'adjust' && previewPixels && (showHighlightClipping || showShadowClipping) && !isComparing && (
+                <ClippingOverlay
+                    image={previewPixels}
+                    showHighlights={showHighlightClipping}
+                    showShadows={showShadowClipping}
+                    className="absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none"
+                />
+            )}
+            {activeTab === 'layers' && draftLayers && (
+                <LayerStackPreview
+                    layers={draftLayers}
+                    className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'}`}
+                />
+            )}
+             {isSelectionTab && imageDimensions.width > 0 && (
                 <MaskingCanvas
+                    key={activeTab}
                     ref={maskingCanvasRef}
                     width={imageDimensions.width}
                     height={imageDimensions.height}
                     brushSize={brushSize}
                     brushHardness={brushHardness}
                     brushMode={brushMode}
-                    onMaskChange={setDrawnMaskDataUrl}
-                    onDrawEnd={() => {}}
+                    tool={maskTool}
+                    showRedOverlay={showMaskRedOverlay}
+                    onMaskChange={setHasMaskSelection}
                     resetTrigger={maskResetTrigger}
                     onUndoStateChange={setCanUndoMaskStroke}
                     onRedoStateChange={setCanRedoMaskStroke}
                 />
             )}
         </div>
-         {activeTab === 'mask' && brushCursorPosition && !isPanning && (
+         {isSelectionTab && maskTool === 'brush' && brushCursorPosition && !isPanning && (
             <div
                 className="absolute rounded-full border border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-20"
                 style={{
@@ -730,33 +1188,45 @@ const App: React.FC = () => {
       </div>
     );
     
-    const cropImageElement = (
-      <img 
-        ref={imgRef}
-        key={`crop-${currentImageUrl}`}
-        src={currentImageUrl!} 
-        alt="Crop this image"
-        style={imageStyle}
-        className="w-full h-auto object-contain max-h-[60vh] rounded-xl"
+    const cropImageElement = cropSourceImage && (
+      <TransformedImageCanvas
+        image={cropSourceImage}
+        transform={cropTransform}
+        onSourceSize={setCropSourceSize}
+        className="block max-w-full max-h-[60vh] rounded-xl"
       />
     );
 
 
     return (
       <div className="w-full max-w-5xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
+        {editorError && (
+            <ErrorBanner
+                error={editorError.error}
+                action={editorError.action}
+                onDismiss={() => setEditorError(null)}
+                onRetry={editorError.retry}
+            />
+        )}
         <div className="relative w-full bg-gray-900 border border-gray-700/50 rounded-xl overflow-hidden p-2">
             {isLoading && (
                 <div className="absolute inset-0 bg-gray-950/80 backdrop-blur-sm z-30 flex flex-col items-center justify-center gap-4 animate-fade-in">
                     <Spinner />
                     <p className="text-gray-300 font-medium">AI is working its magic...</p>
+                    <button
+                        onClick={handleCancelRequest}
+                        className="text-center bg-gray-800 border border-gray-700 text-gray-300 font-semibold py-2 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-gray-700 active:scale-95 text-sm"
+                    >
+                        Cancel
+                    </button>
                 </div>
             )}
             
             {activeTab === 'crop' ? (
               <ReactCrop 
                 crop={crop} 
-                onChange={c => setCrop(c)} 
-                onComplete={c => setCompletedCrop(c)}
+                onChange={(_, percentCrop) => setCrop(percentCrop)}
+                onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)}
                 aspect={aspect}
                 className="max-h-[60vh]"
               >
@@ -766,7 +1236,6 @@ const App: React.FC = () => {
                 <ImageComparator 
                   beforeImageUrl={originalImageUrl} 
                   afterImageUrl={currentImageUrl}
-                  afterImageStyle={imageStyle}
                 />
             ) : imageDisplay }
             
@@ -781,7 +1250,7 @@ const App: React.FC = () => {
         </div>
         
         <div className="w-full bg-gray-900 border border-gray-700/50 rounded-xl p-2 flex items-center justify-center gap-2 backdrop-blur-sm shadow-md">
-            {(['retouch', 'adjust', 'filters', 'mask', 'crop', 'style'] as Tab[]).map(tab => (
+            {(['retouch', 'adjust', 'filters', 'mask', 'crop', 'style', 'layers'] as Tab[]).map(tab => (
                  <button
                     key={tab}
                     onClick={() => setActiveTab(tab)}
@@ -798,52 +1267,91 @@ const App: React.FC = () => {
         
         <div className="w-full">
             {activeTab === 'retouch' && (
-                <div className="flex flex-col items-center gap-4">
-                    <p className="text-md text-gray-400">
-                        {editHotspot ? 'Great! Now describe your localized edit below.' : 'Click an area on the image to make a precise edit.'}
-                    </p>
-                    <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-3">
-                        <input
-                            type="text"
-                            value={prompt}
-                            onChange={(e) => setPrompt(e.target.value)}
-                            placeholder={editHotspot ? "e.g., 'change my shirt color to blue'" : "First click a point on the image"}
-                            className="flex-grow bg-gray-800 border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-purple-500 focus:border-purple-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 placeholder-gray-500"
-                            disabled={isLoading || !editHotspot}
-                        />
-                        <button 
-                            type="submit"
-                            className="bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                            disabled={isLoading || !prompt.trim() || !editHotspot}
-                        >
-                            Generate
-                        </button>
-                    </form>
-                </div>
+                <RetouchPanel
+                    prompt={prompt}
+                    onPromptChange={setPrompt}
+                    onGenerate={handleGenerate}
+                    isLoading={isLoading}
+                    hasSelection={hasMaskSelection}
+                    toolbar={maskToolbar}
+                    showBrushSize={maskTool === 'brush'}
+                    brushSize={brushSize}
+                    onBrushSizeChange={setBrushSize}
+                    onUndoStroke={handleUndoMaskStroke}
+                    canUndoStroke={canUndoMaskStroke}
+                    onRedoStroke={handleRedoMaskStroke}
+                    canRedoStroke={canRedoMaskStroke}
+                    onClearSelection={() => {
+                        setHasMaskSelection(false);
+                        setMaskResetTrigger(t => t + 1);
+                    }}
+                />
+            )}
+            {activeTab === 'crop' && (
+                <CropPanel
+                    onApplyCrop={handleApplyCrop}
+                    onSetAspect={handleSetAspect}
+                    isLoading={isLoading || isApplyingCrop}
+                    isCropping={!!completedCrop?.width && completedCrop.width > 0}
+                    originalAspect={turnedCropSize ? turnedCropSize.width / turnedCropSize.height : undefined}
+                    transform={cropTransform}
+                    onTransformChange={handleCropTransformChange}
+                    cropSize={completedCrop?.width && cropBounds ? toNaturalRect(completedCrop, cropBounds) : null}
+                    maxCropSize={cropBounds}
+                    onCropSizeChange={handleCropSizeChange}
+                    aspect={aspect}
+                    canReadjust={canReadjustCrop}
+                    isReadjusting={cropEditNode !== null}
+                    onReadjust={handleReadjustCrop}
+                    onCancelReadjust={handleCancelReadjustCrop}
+                />
+            )}
+            {activeTab === 'adjust' && (
+                <AdjustmentPanel
+                    onApplyAdjustment={handleApplyAdjustment}
+                    onApplyManualAdjustments={handleApplyManualAdjustments}
+                    isLoading={isLoading || isApplyingAdjustments}
+                    manualAdjustments={manualAdjustments}
+                    onManualAdjustmentsChange={setManualAdjustments}
+                    histogram={histogram}
+                    showHighlightClipping={showHighlightClipping}
+                    showShadowClipping={showShadowClipping}
+                    onShowHighlightClippingChange={setShowHighlightClipping}
+                    onShowShadowClippingChange={setShowShadowClipping}
+                />
             )}
-            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} manualAdjustments={manualAdjustments} onManualAdjustmentsChange={setManualAdjustments} />}
             {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
             {activeTab === 'style' && <StyleTransferPanel onApplyStyle={handleApplyStyleTransfer} isLoading={isLoading} />}
+            {activeTab === 'layers' && currentNode && (
+                <LayersPanel
+                    layers={draftLayers ?? getEntryLayers(currentNode)}
+                    onLayersChange={setDraftLayers}
+                    onApply={handleApplyLayers}
+                    onReset={() => setDraftLayers(null)}
+                    hasChanges={draftLayers !== null}
+                    isLoading={isLoading || isApplyingLayers}
+                />
+            )}
             {activeTab === 'mask' && (
                 <MaskPanel
                     history={history}
                     historyIndex={historyIndex}
+                    imageSize={imageDimensions}
                     brushSourceIndex={brushSourceIndex}
                     onBrushSourceIndexChange={setBrushSourceIndex}
                     brushSize={brushSize}
                     onBrushSizeChange={setBrushSize}
                     brushHardness={brushHardness}
                     onBrushHardnessChange={setBrushHardness}
-                    brushMode={brushMode}
-                    onBrushModeChange={setBrushMode}
+                    toolbar={maskToolbar}
                     onApply={handleApplyMask}
+                    onRefine={handleRefineMask}
                     onReset={() => {
-                        setDrawnMaskDataUrl(null);
+                        setHasMaskSelection(false);
                         setMaskResetTrigger(t => t + 1);
                     }}
-                    isLoading={isLoading}
-                    canApply={!!drawnMaskDataUrl}
+                    isLoading={isLoading || isApplyingMask}
+                    canApply={hasMaskSelection}
                     onUndoStroke={handleUndoMaskStroke}
                     canUndoStroke={canUndoMaskStroke}
                     onRedoStroke={handleRedoMaskStroke}
@@ -852,6 +1360,18 @@ const App: React.FC = () => {
             )}
         </div>
         
+        {historyTree && (
+            <HistoryTimeline
+                tree={historyTree}
+                branch={history}
+                historyIndex={historyIndex}
+                onSelectNode={handleSelectNode}
+                comparisonNodeId={isSliderCompareActive ? comparisonNodeId : null}
+                onCompareWithNode={handleCompareWithNode}
+                isLoading={isLoading}
+            />
+        )}
+
         <div className="flex flex-wrap items-center justify-center gap-2 mt-6">
             <button 
                 onClick={handleUndo}
@@ -889,7 +1409,7 @@ const App: React.FC = () => {
                     Hold to Compare
                 </button>
                 <button 
-                  onClick={() => setIsSliderCompareActive(!isSliderCompareActive)}
+                  onClick={() => handleCompareWithNode(isSliderCompareActive ? null : history[0].id)}
                   className={`flex items-center justify-center text-center border font-semibold py-2 px-4 rounded-lg transition-all duration-200 ease-in-out active:scale-95 text-sm ${isSliderCompareActive ? 'bg-purple-600 text-white border-purple-600' : 'bg-gray-800 text-gray-300 border-gray-700 hover:bg-gray-700'}`}
                   aria-label="Toggle comparison slider"
                 >
@@ -930,6 +1450,17 @@ const App: React.FC = () => {
       <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center items-start`}>
         {renderContent()}
       </main>
+      {exportSource && (
+        <ExportDialog
+          image={exportSource}
+          imageSize={imageDimensions}
+          originalName={uploadedFileName}
+          metadata={currentNode?.metadata ?? null}
+          onExport={handleExport}
+          onClose={handleCloseExport}
+          isExporting={isExporting}
+        />
+      )}
     </div>
   );
 };
@@ -1,30 +1,25 @@
 
 
 import React, { useState } from 'react';
-
-export interface ManualAdjustments {
-  brightness: number;
-  contrast: number;
-  saturation: number;
-  hue: number;
-  vibrance: number;
-  sharpness: number;
-}
-
-export const defaultAdjustments: ManualAdjustments = {
-  brightness: 100,
-  contrast: 100,
-  saturation: 100,
-  hue: 0,
-  vibrance: 100,
-  sharpness: 0,
-};
+import ToneCurveEditor from './ToneCurveEditor';
+import HistogramChart from './HistogramChart';
+import { type ImageHistogram } from '../services/imageAnalysis';
+import { defaultAdjustments, isIdentityAdjustments } from '../services/adjustmentPipeline';
+import { type ManualAdjustments } from '../types';
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string) => void;
+  /** Bakes the manual adjustments into a new history step locally, without the AI. */
+  onApplyManualAdjustments: () => void;
   isLoading: boolean;
   manualAdjustments: ManualAdjustments;
   onManualAdjustmentsChange: (adjustments: ManualAdjustments) => void;
+  /** Histogram of the image as currently previewed, adjustments included. */
+  histogram: ImageHistogram | null;
+  showHighlightClipping: boolean;
+  showShadowClipping: boolean;
+  onShowHighlightClippingChange: (show: boolean) => void;
+  onShowShadowClippingChange: (show: boolean) => void;
 }
 
 const AdjustmentSlider: React.FC<{
@@ -34,7 +29,8 @@ const AdjustmentSlider: React.FC<{
   max: number;
   onChange: (value: number) => void;
   unit?: string;
-}> = ({ label, value, min, max, onChange, unit = '%' }) => (
+  step?: number;
+}> = ({ label, value, min, max, onChange, unit = '%', step = 1 }) => (
   <div className="flex flex-col gap-2">
     <div className="flex justify-between items-center">
       <label className="text-sm font-medium text-gray-400">{label}</label>
@@ -44,6 +40,7 @@ const AdjustmentSlider: React.FC<{
       type="range"
       min={min}
       max={max}
+      step={step}
       value={value}
       onChange={e => onChange(Number(e.target.value))}
       className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-purple-600 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:transition-transform [&::-webkit-slider-thumb]:active:scale-125"
@@ -52,7 +49,18 @@ const AdjustmentSlider: React.FC<{
 );
 
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading, manualAdjustments, onManualAdjustmentsChange }) => {
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
+  onApplyAdjustment,
+  onApplyManualAdjustments,
+  isLoading,
+  manualAdjustments,
+  onManualAdjustmentsChange,
+  histogram,
+  showHighlightClipping,
+  showShadowClipping,
+  onShowHighlightClippingChange,
+  onShowShadowClippingChange,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [mode, setMode] = useState<'ai' | 'manual'>('ai');
@@ -82,33 +90,23 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     }
   };
 
-  const handleApplyManual = () => {
-    const { brightness, contrast, saturation, hue, vibrance, sharpness } = manualAdjustments;
-    const adjustmentDescriptions: string[] = [];
-    if (brightness !== 100) adjustmentDescriptions.push(`brightness to ${brightness}%`);
-    if (contrast !== 100) adjustmentDescriptions.push(`contrast to ${contrast}%`);
-    if (saturation !== 100) adjustmentDescriptions.push(`saturation to ${saturation}%`);
-    if (hue !== 0) adjustmentDescriptions.push(`hue shift by ${hue} degrees`);
-    if (vibrance !== 100) adjustmentDescriptions.push(`vibrance to ${vibrance}%`);
-    if (sharpness !== 0) adjustmentDescriptions.push(`sharpness to ${sharpness}%`);
-
-    if (adjustmentDescriptions.length > 0) {
-        const prompt = `Apply the following photorealistic adjustments to the entire image: ${adjustmentDescriptions.join(', ')}.`;
-        onApplyAdjustment(prompt);
-    }
-  };
-
   const handleResetManual = () => {
       onManualAdjustmentsChange(defaultAdjustments);
   };
 
-  const areManualAdjustmentsChanged = 
-      manualAdjustments.brightness !== 100 ||
-      manualAdjustments.contrast !== 100 ||
-      manualAdjustments.saturation !== 100 ||
-      manualAdjustments.hue !== 0 ||
-      manualAdjustments.vibrance !== 100 ||
-      manualAdjustments.sharpness !== 0;
+  const areManualAdjustmentsChanged = !isIdentityAdjustments(manualAdjustments);
+
+  const renderSlider = (key: Exclude<keyof ManualAdjustments, 'toneCurve'>, label: string, min: number, max: number, options: { unit?: string, step?: number } = {}) => (
+    <AdjustmentSlider
+      label={label}
+      value={manualAdjustments[key]}
+      min={min}
+      max={max}
+      unit={options.unit ?? ''}
+      step={options.step}
+      onChange={val => onManualAdjustmentsChange({ ...manualAdjustments, [key]: val })}
+    />
+  );
 
   return (
     <div className="w-full bg-gray-900 border border-gray-700/50 rounded-xl p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
@@ -163,13 +161,44 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
       {mode === 'manual' && (
         <div className="flex flex-col gap-6 animate-fade-in p-2">
            <h3 className="text-lg font-semibold text-center text-gray-200">Manual Adjustments</h3>
-           <div className="flex flex-col gap-4">
-              <AdjustmentSlider label="Brightness" value={manualAdjustments.brightness} min={50} max={150} onChange={val => onManualAdjustmentsChange({...manualAdjustments, brightness: val})} />
-              <AdjustmentSlider label="Contrast" value={manualAdjustments.contrast} min={50} max={150} onChange={val => onManualAdjustmentsChange({...manualAdjustments, contrast: val})} />
-              <AdjustmentSlider label="Saturation" value={manualAdjustments.saturation} min={0} max={200} onChange={val => onManualAdjustmentsChange({...manualAdjustments, saturation: val})} />
-              <AdjustmentSlider label="Hue" value={manualAdjustments.hue} min={-180} max={180} onChange={val => onManualAdjustmentsChange({...manualAdjustments, hue: val})} unit="deg" />
-              <AdjustmentSlider label="Vibrance" value={manualAdjustments.vibrance} min={0} max={200} onChange={val => onManualAdjustmentsChange({...manualAdjustments, vibrance: val})} />
-              <AdjustmentSlider label="Sharpness" value={manualAdjustments.sharpness} min={0} max={100} onChange={val => onManualAdjustmentsChange({...manualAdjustments, sharpness: val})} />
+           <HistogramChart
+             histogram={histogram}
+             showHighlightClipping={showHighlightClipping}
+             showShadowClipping={showShadowClipping}
+             onShowHighlightClippingChange={onShowHighlightClippingChange}
+             onShowShadowClippingChange={onShowShadowClippingChange}
+           />
+           <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-6">
+              <div className="flex flex-col gap-4">
+                <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Light</h4>
+                {renderSlider('exposure', 'Exposure', -3, 3, { unit: ' EV', step: 0.05 })}
+                {renderSlider('brightness', 'Brightness', 50, 150, { unit: '%' })}
+                {renderSlider('contrast', 'Contrast', 50, 150, { unit: '%' })}
+                {renderSlider('highlights', 'Highlights', -100, 100)}
+                {renderSlider('shadows', 'Shadows', -100, 100)}
+                {renderSlider('whites', 'Whites', -100, 100)}
+                {renderSlider('blacks', 'Blacks', -100, 100)}
+              </div>
+              <div className="flex flex-col gap-4">
+                <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Color</h4>
+                {renderSlider('temperature', 'Temperature', -100, 100)}
+                {renderSlider('tint', 'Tint', -100, 100)}
+                {renderSlider('saturation', 'Saturation', 0, 200, { unit: '%' })}
+                {renderSlider('vibrance', 'Vibrance', 0, 200, { unit: '%' })}
+                {renderSlider('hue', 'Hue', -180, 180, { unit: 'deg' })}
+                <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mt-2">Detail &amp; Effects</h4>
+                {renderSlider('clarity', 'Clarity', -100, 100)}
+                {renderSlider('sharpness', 'Sharpness', 0, 100, { unit: '%' })}
+                {renderSlider('vignette', 'Vignette', -100, 100)}
+              </div>
+           </div>
+           <div className="flex flex-col gap-3">
+              <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Tone Curve</h4>
+              <ToneCurveEditor
+                curves={manualAdjustments.toneCurve}
+                onChange={toneCurve => onManualAdjustmentsChange({ ...manualAdjustments, toneCurve })}
+                disabled={isLoading}
+              />
            </div>
            <div className="flex items-center gap-2 mt-2">
                 <button
@@ -180,13 +209,14 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
                     Reset
                 </button>
                 <button
-                    onClick={handleApplyManual}
+                    onClick={onApplyManualAdjustments}
                     className="w-full bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-3 px-5 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                     disabled={isLoading || !areManualAdjustmentsChanged}
                 >
-                    Apply with AI
+                    Apply
                 </button>
            </div>
+           <p className="text-xs text-center text-gray-500 -mt-3">Rendered on your device — no AI credits used.</p>
         </div>
       )}
     </div>
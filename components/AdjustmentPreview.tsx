@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { type ManualAdjustments } from '../types';
+import { applyAdjustments, loadImageData } from '../services/adjustmentPipeline';
+
+// Preview resolution cap, as for the crop preview; baking always renders the full image
+const MAX_PREVIEW_SIZE = 2048;
+
+interface AdjustmentPreviewProps {
+  image: File;
+  adjustments: ManualAdjustments;
+  className?: string;
+  /** Receives the rendered pixels after every update, e.g. for the histogram. */
+  onRender?: (rendered: ImageData) => void;
+}
+
+/**
+ * Live preview of the manual adjustments, rendered with the same pipeline that
+ * bakes them into history but from a copy of the image capped at
+ * MAX_PREVIEW_SIZE, so the sliders stay real-time on large photos.
+ */
+const AdjustmentPreview: React.FC<AdjustmentPreviewProps> = ({ image, adjustments, className, onRender }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+  const [source, setSource] = useState<ImageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    loadImageData(image, MAX_PREVIEW_SIZE)
+      .then(data => { if (!cancelled) setSource(data); })
+      .catch(err => console.error('Failed to decode image for the adjustment preview', err));
+    return () => { cancelled = true; };
+  }, [image]);
+
+  // Coalesce rapid slider changes into one render per frame
+  useEffect(() => {
+    if (!source) return;
+    const frame = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      if (canvas.width !== source.width) canvas.width = source.width;
+      if (canvas.height !== source.height) canvas.height = source.height;
+      const rendered = applyAdjustments(source, adjustments);
+      canvas.getContext('2d')?.putImageData(rendered, 0, 0);
+      onRenderRef.current?.(rendered);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, adjustments]);
+
+  return <canvas ref={canvasRef} className={`${className ?? ''} ${source ? '' : 'invisible'}`} />;
+};
+
+export default AdjustmentPreview;
@@ -7,6 +7,7 @@ import { DownloadIcon, CheckIcon, ErrorIcon, ClockIcon } from './icons';
 
 const BatchItem: React.FC<{ item: BatchItemType }> = ({ item }) => {
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [processedUrl, setProcessedUrl] = useState<string | null>(null);
 
     useEffect(() => {
         const url = URL.createObjectURL(item.originalFile);
@@ -17,10 +18,23 @@ const BatchItem: React.FC<{ item: BatchItemType }> = ({ item }) => {
         };
     }, [item.originalFile]);
 
+    useEffect(() => {
+        if (!item.processedImage) {
+            setProcessedUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(item.processedImage);
+        setProcessedUrl(url);
+
+        return () => {
+            URL.revokeObjectURL(url);
+        };
+    }, [item.processedImage]);
+
     const handleDownload = () => {
-        if (!item.processedUrl) return;
+        if (!processedUrl) return;
         const link = document.createElement('a');
-        link.href = item.processedUrl;
+        link.href = processedUrl;
         
         const nameParts = item.originalFile.name.split('.');
         const extension = nameParts.pop();
@@ -87,8 +101,8 @@ const BatchItem: React.FC<{ item: BatchItemType }> = ({ item }) => {
             <div 
                 className={`w-full h-full transition-all duration-300 ${item.status === 'pending' || item.status === 'error' ? 'opacity-40 brightness-75' : 'opacity-100'}`}
             >
-                {item.status === 'complete' && item.processedUrl ? (
-                    <img src={item.processedUrl} alt="Edited result" className="w-full h-full object-cover" />
+                {item.status === 'complete' && processedUrl ? (
+                    <img src={processedUrl} alt="Edited result" className="w-full h-full object-cover" />
                 ) : previewUrl ? (
                     <img src={previewUrl} alt={item.originalFile.name} className="w-full h-full object-cover" />
                 ) : (
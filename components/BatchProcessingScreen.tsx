@@ -2,7 +2,7 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import JSZip from 'jszip';
-import { generateFilteredImage, generateAdjustedImage, generateStyleTransferImage } from '../services/geminiService';
+import { generateFilteredImage, generateAdjustedImage, generateStyleTransferImage, isAbortError, toAIServiceError } from '../services/geminiService';
 import BatchItem from './BatchItem';
 import { DownloadZipIcon, UploadIcon, RetryIcon } from './icons';
 import Spinner from './Spinner';
@@ -15,13 +15,14 @@ interface BatchProcessingScreenProps {
 export interface BatchItem {
     id: string;
     originalFile: File;
-    processedUrl?: string;
+    processedImage?: Blob;
     status: 'pending' | 'processing' | 'complete' | 'error';
     errorMessage?: string;
 }
 
 /**
  * A helper function to retry an async function if it fails.
+ * Cancelled requests and non-retryable errors (budget, safety, bad input) are never retried.
  * @param fn The async function to execute.
  * @param retries Number of retries.
  * @param delay The initial delay in ms, which doubles on each retry.
@@ -35,7 +36,7 @@ const withRetry = async <T,>(
     try {
         return await fn();
     } catch (err) {
-        if (retries > 0) {
+        if (retries > 0 && !isAbortError(err) && toAIServiceError(err).retryable) {
             console.log(
                 `Request failed, retrying in ${delay / 1000}s... (${retries} retries left)`
             );
@@ -76,6 +77,7 @@ const BatchProcessingScreen: React.FC<BatchProcessingScreenProps> = ({ files, on
     const [isZipping, setIsZipping] = useState(false);
     const [hasStartedProcessing, setHasStartedProcessing] = useState(false);
     const isCancelledRef = useRef(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     // New states for style transfer mode
     const [batchMode, setBatchMode] = useState<'effect' | 'style'>('effect');
@@ -118,6 +120,8 @@ const BatchProcessingScreen: React.FC<BatchProcessingScreenProps> = ({ files, on
 
         setHasStartedProcessing(true);
         isCancelledRef.current = false;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsProcessing(true);
 
         const isInitialRun = itemsToProcess.length === batchItems.length && itemsToProcess.every(item => item.status !== 'complete');
@@ -136,20 +140,21 @@ const BatchProcessingScreen: React.FC<BatchProcessingScreenProps> = ({ files, on
                 const apiCall = () => {
                     if (batchMode === 'effect') {
                         const activePrompt = customPrompt.trim() || selectedPreset?.prompt;
-                        if (customPrompt.trim()) return generateAdjustedImage(item.originalFile, activePrompt!, isAdaptive);
-                        if (selectedPreset) return selectedPreset.type === 'adjustment' ? generateAdjustedImage(item.originalFile, selectedPreset.prompt, isAdaptive) : generateFilteredImage(item.originalFile, selectedPreset.prompt, isAdaptive);
+                        if (customPrompt.trim()) return generateAdjustedImage(item.originalFile, activePrompt!, isAdaptive, controller.signal);
+                        if (selectedPreset) return selectedPreset.type === 'adjustment' ? generateAdjustedImage(item.originalFile, selectedPreset.prompt, isAdaptive, controller.signal) : generateFilteredImage(item.originalFile, selectedPreset.prompt, isAdaptive, controller.signal);
                     } else if (batchMode === 'style') {
-                        return generateStyleTransferImage(item.originalFile, styleFile!, stylePrompt);
+                        return generateStyleTransferImage(item.originalFile, styleFile!, stylePrompt, controller.signal);
                     }
                     return Promise.reject(new Error("Invalid processing mode or missing inputs."));
                 };
-                const resultUrl = await withRetry(apiCall);
+                const result = await withRetry(apiCall);
                 
                 if (isCancelledRef.current) break;
-                setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'complete', processedUrl: resultUrl } : i));
+                setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'complete', processedImage: result } : i));
             } catch (err) {
-                if (isCancelledRef.current) break;
-                const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+                if (isCancelledRef.current || isAbortError(err)) break;
+                const serviceError = toAIServiceError(err);
+                const errorMessage = `${serviceError.title}: ${serviceError.message} ${serviceError.hint}`;
                 console.error(`Failed to process ${item.originalFile.name}:`, err);
                 setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, status: 'error', errorMessage } : i));
             }
@@ -157,11 +162,18 @@ const BatchProcessingScreen: React.FC<BatchProcessingScreenProps> = ({ files, on
                 setProcessedCount(prev => prev + 1);
             }
         }
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+        }
         setIsProcessing(false);
     }, [selectedPreset, customPrompt, batchItems, batchMode, styleFile, stylePrompt, isAdaptive]);
 
+    // Abort the in-flight request on unmount (e.g. "Start Over" while processing)
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
     const handleCancelProcessing = () => {
         isCancelledRef.current = true;
+        abortControllerRef.current?.abort();
         setBatchItems(prev => prev.map(item =>
             item.status === 'processing' ? { ...item, status: 'pending' } : item
         ));
@@ -173,24 +185,21 @@ const BatchProcessingScreen: React.FC<BatchProcessingScreenProps> = ({ files, on
     }
     
     const handleDownloadAll = async () => {
-        const completedItems = batchItems.filter(item => item.status === 'complete' && item.processedUrl);
+        const completedItems = batchItems.filter(item => item.status === 'complete' && item.processedImage);
         if (completedItems.length === 0) return;
 
         setIsZipping(true);
         try {
             const zip = new JSZip();
 
-            await Promise.all(completedItems.map(async (item) => {
-                const response = await fetch(item.processedUrl!);
-                const blob = await response.blob();
-
+            completedItems.forEach(item => {
                 const nameParts = item.originalFile.name.split('.');
                 const extension = nameParts.pop() || 'png';
                 const baseName = nameParts.join('.').replace(/[^a-z0-9]/gi, '_').toLowerCase();
                 const fileName = `${baseName}-edited.${extension}`;
 
-                zip.file(fileName, blob);
-            }));
+                zip.file(fileName, item.processedImage!);
+            });
 
             const zipBlob = await zip.generateAsync({ type: 'blob' });
             
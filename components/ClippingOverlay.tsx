@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { renderClippingOverlay } from '../services/imageAnalysis';
+
+interface ClippingOverlayProps {
+  image: ImageData;
+  showHighlights: boolean;
+  showShadows: boolean;
+  className?: string;
+}
+
+const ClippingOverlay: React.FC<ClippingOverlayProps> = ({ image, showHighlights, showShadows, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (canvas.width !== image.width) canvas.width = image.width;
+    if (canvas.height !== image.height) canvas.height = image.height;
+    const overlay = renderClippingOverlay(image, { highlights: showHighlights, shadows: showShadows });
+    canvas.getContext('2d')?.putImageData(overlay, 0, 0);
+  }, [image, showHighlights, showShadows]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default ClippingOverlay;
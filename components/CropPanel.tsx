@@ -1,50 +1,259 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { type CropTransform, type ImageSize, identityCropTransform, isIdentityCropTransform } from '../services/cropService';
 
 interface CropPanelProps {
   onApplyCrop: () => void;
   onSetAspect: (aspect: number | undefined) => void;
   isLoading: boolean;
   isCropping: boolean;
+  /** Aspect ratio of the image after quarter turns, for the "original" preset. */
+  originalAspect: number | undefined;
+  transform: CropTransform;
+  onTransformChange: (transform: CropTransform) => void;
+  /** Current selection in natural pixels, or null when nothing is selected. */
+  cropSize: ImageSize | null;
+  /** Size of the whole transformed image in natural pixels. */
+  maxCropSize: ImageSize | null;
+  onCropSizeChange: (size: ImageSize) => void;
+  /** The aspect ratio the selection is locked to, if any. */
+  aspect: number | undefined;
+  /** Whether the current step is a crop that can be re-adjusted from its parent. */
+  canReadjust: boolean;
+  isReadjusting: boolean;
+  onReadjust: () => void;
+  onCancelReadjust: () => void;
 }
 
-type AspectRatio = 'free' | '1:1' | '16:9';
+type AspectRatio = 'free' | 'original' | '1:1' | '4:5' | '3:2' | '2:3' | '16:9' | '9:16';
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
+const aspects: { name: AspectRatio, ratio?: [number, number] }[] = [
+  { name: 'free' },
+  { name: 'original' },
+  { name: '1:1', ratio: [1, 1] },
+  { name: '4:5', ratio: [4, 5] },
+  { name: '3:2', ratio: [3, 2] },
+  { name: '2:3', ratio: [2, 3] },
+  { name: '16:9', ratio: [16, 9] },
+  { name: '9:16', ratio: [9, 16] },
+];
+
+const CropPanel: React.FC<CropPanelProps> = ({
+  onApplyCrop,
+  onSetAspect,
+  isLoading,
+  isCropping,
+  originalAspect,
+  transform,
+  onTransformChange,
+  cropSize,
+  maxCropSize,
+  onCropSizeChange,
+  aspect,
+  canReadjust,
+  isReadjusting,
+  onReadjust,
+  onCancelReadjust,
+}) => {
   const [activeAspect, setActiveAspect] = useState<AspectRatio>('free');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
+  const [isSwapped, setIsSwapped] = useState(false);
+  const [widthInput, setWidthInput] = useState('');
+  const [heightInput, setHeightInput] = useState('');
+
+  const getAspectValue = (name: AspectRatio, swapped: boolean): number | undefined => {
+    const preset = aspects.find(aspect => aspect.name === name)!;
+    const value = preset.ratio ? preset.ratio[0] / preset.ratio[1] : name === 'original' ? originalAspect : undefined;
+    return value && swapped ? 1 / value : value;
+  };
+
+  const aspectValue = getAspectValue(activeAspect, isSwapped);
+
+  const handleAspectChange = (aspect: AspectRatio) => {
     setActiveAspect(aspect);
-    onSetAspect(value);
-  }
+    setIsSwapped(false);
+    onSetAspect(getAspectValue(aspect, false));
+  };
+
+  const handleSwapOrientation = () => {
+    setIsSwapped(!isSwapped);
+    onSetAspect(getAspectValue(activeAspect, !isSwapped));
+  };
+
+  // Reflect an aspect ratio set from outside, e.g. when re-adjusting an earlier crop
+  useEffect(() => {
+    if (aspect === aspectValue) return;
+    for (const { name } of aspects) {
+      for (const swapped of [false, true]) {
+        const value = getAspectValue(name, swapped);
+        if (aspect !== undefined && value !== undefined && Math.abs(value - aspect) < 1e-6) {
+          setActiveAspect(name);
+          setIsSwapped(swapped);
+          return;
+        }
+      }
+    }
+    setActiveAspect('free');
+    setIsSwapped(false);
+  }, [aspect]);
+
+  // "Original" follows the image when it is turned
+  useEffect(() => {
+    if (activeAspect === 'original') onSetAspect(getAspectValue('original', isSwapped));
+  }, [originalAspect]);
+
+  useEffect(() => {
+    setWidthInput(cropSize ? String(Math.round(cropSize.width)) : '');
+    setHeightInput(cropSize ? String(Math.round(cropSize.height)) : '');
+  }, [cropSize?.width, cropSize?.height]);
+
+  const commitSize = (changed: 'width' | 'height') => {
+    if (!maxCropSize) return;
+    let width = Math.round(Number(widthInput));
+    let height = Math.round(Number(heightInput));
+    if (aspectValue) {
+      if (changed === 'width') height = Math.round(width / aspectValue);
+      else width = Math.round(height * aspectValue);
+    }
+    if (!(width > 0) || !(height > 0)) {
+      setWidthInput(cropSize ? String(Math.round(cropSize.width)) : '');
+      setHeightInput(cropSize ? String(Math.round(cropSize.height)) : '');
+      return;
+    }
+    // Scale down uniformly if the requested size does not fit
+    const fit = Math.min(1, maxCropSize.width / width, maxCropSize.height / height);
+    onCropSizeChange({ width: Math.floor(width * fit), height: Math.floor(height * fit) });
+  };
+
+  const handleSizeKeyDown = (changed: 'width' | 'height') => (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitSize(changed);
+  };
+
+  const rotateBy = (turns: number) => {
+    onTransformChange({ ...transform, quarterTurns: (transform.quarterTurns + turns + 4) % 4 });
+  };
+
+  const buttonClass = (active: boolean) => `px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+      ? 'bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white shadow-md shadow-purple-500/20'
+      : 'bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-300'
+  }`;
 
-  const aspects: { name: AspectRatio, value: number | undefined }[] = [
-    { name: 'free', value: undefined },
-    { name: '1:1', value: 1 / 1 },
-    { name: '16:9', value: 16 / 9 },
-  ];
+  const sizeInputClass = 'w-24 bg-gray-800 border border-gray-700 text-gray-200 rounded-md px-2 py-1.5 text-sm font-mono focus:ring-2 focus:ring-purple-500 focus:outline-none disabled:opacity-50';
 
   return (
     <div className="w-full bg-gray-900 border border-gray-700/50 rounded-xl p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-gray-200">Crop Image</h3>
       <p className="text-sm text-gray-400 -mt-2">Click and drag on the image to select a crop area.</p>
-      
-      <div className="flex items-center gap-2">
+
+      {isReadjusting ? (
+        <div className="w-full max-w-md flex items-center justify-between gap-2 bg-purple-950/40 border border-purple-500/40 rounded-lg px-3 py-2">
+          <span className="text-sm text-purple-200">Re-adjusting the previous crop from its original image.</span>
+          <button onClick={onCancelReadjust} disabled={isLoading} className="text-sm font-semibold text-gray-300 hover:text-white disabled:opacity-50">
+            Cancel
+          </button>
+        </div>
+      ) : canReadjust && (
+        <button onClick={onReadjust} disabled={isLoading} className={buttonClass(false)}>
+          Re-adjust Previous Crop
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
         <span className="text-sm font-medium text-gray-400">Aspect Ratio:</span>
-        {aspects.map(({ name, value }) => (
+        {aspects.map(({ name }) => (
           <button
             key={name}
-            onClick={() => handleAspectChange(name, value)}
-            disabled={isLoading}
-            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white shadow-md shadow-purple-500/20' 
-              : 'bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-300'
-            }`}
+            onClick={() => handleAspectChange(name)}
+            disabled={isLoading || (name === 'original' && !originalAspect)}
+            className={buttonClass(activeAspect === name)}
           >
             {name}
           </button>
         ))}
+        <button
+          onClick={handleSwapOrientation}
+          disabled={isLoading || !aspectValue || aspectValue === 1}
+          className={buttonClass(isSwapped)}
+          title="Swap between portrait and landscape"
+        >
+          ⇄ Swap
+        </button>
+      </div>
+
+      <div className="w-full max-w-md flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+          <label htmlFor="straighten" className="text-sm font-medium text-gray-400">Straighten</label>
+          <span className="text-sm font-mono text-purple-300 bg-gray-700/50 px-2 py-1 rounded w-20 text-center">{transform.rotation.toFixed(1)}°</span>
+        </div>
+        <input
+          id="straighten"
+          type="range"
+          min={-45}
+          max={45}
+          step={0.1}
+          value={transform.rotation}
+          onChange={e => onTransformChange({ ...transform, rotation: Number(e.target.value) })}
+          disabled={isLoading}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-purple-600 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:appearance-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={() => rotateBy(-1)} disabled={isLoading} className={buttonClass(false)}>⟲ Rotate Left</button>
+        <button onClick={() => rotateBy(1)} disabled={isLoading} className={buttonClass(false)}>⟳ Rotate Right</button>
+        <button
+          onClick={() => onTransformChange({ ...transform, flipHorizontal: !transform.flipHorizontal })}
+          disabled={isLoading}
+          className={buttonClass(transform.flipHorizontal)}
+        >
+          Flip Horizontal
+        </button>
+        <button
+          onClick={() => onTransformChange({ ...transform, flipVertical: !transform.flipVertical })}
+          disabled={isLoading}
+          className={buttonClass(transform.flipVertical)}
+        >
+          Flip Vertical
+        </button>
+        <button
+          onClick={() => onTransformChange(identityCropTransform)}
+          disabled={isLoading || isIdentityCropTransform(transform)}
+          className={buttonClass(false)}
+        >
+          Reset
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-400">Size:</span>
+        <input
+          type="number"
+          min={1}
+          max={maxCropSize?.width}
+          value={widthInput}
+          onChange={e => setWidthInput(e.target.value)}
+          onBlur={() => commitSize('width')}
+          onKeyDown={handleSizeKeyDown('width')}
+          disabled={isLoading || !maxCropSize}
+          className={sizeInputClass}
+          aria-label="Crop width in pixels"
+          placeholder="Width"
+        />
+        <span className="text-gray-500">×</span>
+        <input
+          type="number"
+          min={1}
+          max={maxCropSize?.height}
+          value={heightInput}
+          onChange={e => setHeightInput(e.target.value)}
+          onBlur={() => commitSize('height')}
+          onKeyDown={handleSizeKeyDown('height')}
+          disabled={isLoading || !maxCropSize}
+          className={sizeInputClass}
+          aria-label="Crop height in pixels"
+          placeholder="Height"
+        />
+        <span className="text-sm text-gray-500">px</span>
       </div>
 
       <button
@@ -52,7 +261,7 @@ const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoadi
         disabled={isLoading || !isCropping}
         className="w-full max-w-xs mt-2 bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
       >
-        Apply Crop
+        {isReadjusting ? 'Update Crop' : 'Apply Crop'}
       </button>
     </div>
   );
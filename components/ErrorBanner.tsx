@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { type AIServiceError } from '../services/aiErrors';
+import { ErrorIcon, RetryIcon } from './icons';
+
+interface ErrorBannerProps {
+  error: AIServiceError;
+  /** What the user was trying to do, e.g. "apply the filter". */
+  action?: string;
+  onDismiss: () => void;
+  /** Shown only for retryable errors. */
+  onRetry?: () => void;
+}
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, action, onDismiss, onRetry }) => {
+  return (
+    <div role="alert" className="w-full bg-red-950/60 border border-red-500/50 rounded-xl p-4 flex items-start gap-3 animate-fade-in backdrop-blur-sm">
+      <ErrorIcon className="w-6 h-6 text-red-400 flex-shrink-0 mt-0.5" />
+      <div className="flex-grow flex flex-col gap-1 min-w-0">
+        <h3 className="text-base font-bold text-red-200">{error.title}</h3>
+        <p className="text-sm text-red-100 whitespace-pre-line break-words">
+          {action ? `Failed to ${action}. ` : ''}{error.message}
+        </p>
+        <p className="text-sm text-red-300/80">{error.hint}</p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {error.retryable && onRetry && (
+          <button
+            onClick={onRetry}
+            className="flex items-center gap-1.5 bg-red-500 hover:bg-red-600 text-white font-semibold py-1.5 px-3 rounded-md text-sm transition-colors active:scale-95"
+          >
+            <RetryIcon className="w-4 h-4" />
+            Try Again
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="w-8 h-8 flex items-center justify-center text-red-200 text-xl font-bold rounded-md hover:bg-red-500/20 transition-colors"
+          aria-label="Dismiss error"
+        >
+          &times;
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo } from 'react';
+import { type ImageSize } from '../services/cropService';
+import { type ImageMetadata } from '../services/metadataService';
+import {
+  type ExportFormat,
+  type ExportOptions,
+  type ExportResize,
+  EXPORT_FORMATS,
+  FILENAME_TOKENS,
+  defaultExportOptions,
+  estimateExportSize,
+  formatExportFilename,
+  formatFileSize,
+  getExportSize,
+  isExportFormatSupported,
+} from '../services/exportService';
+
+interface ExportDialogProps {
+  /** The flattened image to export. */
+  image: File;
+  imageSize: ImageSize;
+  /** Name of the originally uploaded file, for the {name} token. */
+  originalName: string;
+  /** Metadata carried from the upload, if it had any. */
+  metadata: ImageMetadata | null;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+  isExporting: boolean;
+}
+
+// Re-estimating re-encodes a sample, so wait until the sliders settle
+const ESTIMATE_DELAY_MS = 300;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, imageSize, originalName, metadata, onExport, onClose, isExporting }) => {
+  const [options, setOptions] = useState<ExportOptions>(defaultExportOptions);
+  const [estimatedBytes, setEstimatedBytes] = useState<number | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
+
+  const formats = useMemo(() => (Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter(isExportFormatSupported), []);
+  const outputSize = getExportSize(imageSize, options.resize);
+  const filename = formatExportFilename(options.filenameTemplate, { name: originalName, size: outputSize, format: options.format });
+  const { lossy, metadata: canHoldMetadata } = EXPORT_FORMATS[options.format];
+  const cameraSummary = metadata ? [metadata.make, metadata.model].filter(Boolean).join(' ') : '';
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsEstimating(true);
+    const timer = setTimeout(() => {
+      estimateExportSize(image, options)
+        .then(bytes => { if (!cancelled) setEstimatedBytes(bytes); })
+        .catch(err => {
+          console.error(err);
+          if (!cancelled) setEstimatedBytes(null);
+        })
+        .finally(() => { if (!cancelled) setIsEstimating(false); });
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // The file name does not affect the encoded size, so editing it does not re-estimate
+  }, [image, options.format, options.quality, options.resize, options.convertToSrgb]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isExporting) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isExporting]);
+
+  const update = (changes: Partial<ExportOptions>) => setOptions(current => ({ ...current, ...changes }));
+  const setResize = (resize: ExportResize) => update({ resize });
+
+  const toggleClass = (active: boolean) => `w-full py-2 rounded-md font-semibold transition-all duration-200 text-sm disabled:opacity-50 ${active ? 'bg-purple-600 text-white shadow' : 'text-gray-400 hover:bg-gray-700'}`;
+  const sliderClass = 'w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-purple-600 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:appearance-none';
+  const inputClass = 'bg-gray-800 border border-gray-700 text-gray-200 rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none disabled:opacity-60';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4 animate-fade-in" onClick={() => !isExporting && onClose()}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 border border-gray-700/50 rounded-xl p-6 flex flex-col gap-5 shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-xl font-semibold text-gray-200">Export Image</h2>
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="w-8 h-8 flex items-center justify-center text-gray-400 text-xl font-bold rounded-md hover:bg-gray-700 transition-colors"
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-gray-400">Format</label>
+          <div className="p-1 bg-gray-700/50 rounded-lg flex gap-1">
+            {formats.map(format => (
+              <button key={format} onClick={() => update({ format })} disabled={isExporting} className={toggleClass(options.format === format)}>
+                {EXPORT_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={`flex flex-col gap-2 ${lossy ? '' : 'opacity-50'}`}>
+          <div className="flex justify-between items-center">
+            <label className="text-sm font-medium text-gray-400">Quality</label>
+            <span className="text-sm font-mono text-purple-300 bg-gray-700/50 px-2 py-1 rounded w-16 text-center">{lossy ? options.quality : '—'}</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={100}
+            value={options.quality}
+            onChange={e => update({ quality: Number(e.target.value) })}
+            disabled={isExporting || !lossy}
+            className={sliderClass}
+          />
+          {!lossy && <p className="text-xs text-gray-500">PNG is lossless, so there is no quality setting.</p>}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-gray-400">Size</label>
+          <div className="p-1 bg-gray-700/50 rounded-lg flex gap-1">
+            <button onClick={() => setResize({ mode: 'original' })} disabled={isExporting} className={toggleClass(options.resize.mode === 'original')}>
+              Original
+            </button>
+            <button
+              onClick={() => setResize({ mode: 'max-dimension', maxDimension: Math.min(2048, Math.max(imageSize.width, imageSize.height)) })}
+              disabled={isExporting}
+              className={toggleClass(options.resize.mode === 'max-dimension')}
+            >
+              Longest Side
+            </button>
+            <button onClick={() => setResize({ mode: 'percent', percent: 50 })} disabled={isExporting} className={toggleClass(options.resize.mode === 'percent')}>
+              Percent
+            </button>
+          </div>
+          {options.resize.mode === 'max-dimension' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                max={Math.max(imageSize.width, imageSize.height)}
+                value={options.resize.maxDimension}
+                onChange={e => setResize({ mode: 'max-dimension', maxDimension: Math.max(1, Number(e.target.value) || 1) })}
+                disabled={isExporting}
+                className={`${inputClass} w-32`}
+              />
+              <span className="text-sm text-gray-400">px</span>
+            </div>
+          )}
+          {options.resize.mode === 'percent' && (
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={options.resize.percent}
+                onChange={e => setResize({ mode: 'percent', percent: Number(e.target.value) })}
+                disabled={isExporting}
+                className={sliderClass}
+              />
+              <span className="text-sm font-mono text-purple-300 w-12 text-right">{options.resize.percent}%</span>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">{outputSize.width} × {outputSize.height} px</p>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.convertToSrgb}
+              onChange={e => update({ convertToSrgb: e.target.checked })}
+              disabled={isExporting}
+              className="w-4 h-4 accent-purple-600"
+            />
+            Convert to sRGB (recommended for the web)
+          </label>
+          {!options.convertToSrgb && (
+            <p className="text-xs text-gray-500">Keeps the original colour profile (JPEG and PNG only).</p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label className="text-sm font-medium text-gray-400">Metadata</label>
+          {canHoldMetadata ? (
+            <>
+              <label className={`flex items-center gap-2 text-sm text-gray-300 ${metadata ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={options.keepMetadata && !!metadata}
+                  onChange={e => update({ keepMetadata: e.target.checked })}
+                  disabled={isExporting || !metadata}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                Keep camera and copyright info{cameraSummary ? ` (${cameraSummary})` : metadata ? '' : ' (none found)'}
+              </label>
+              <label className={`flex items-center gap-2 text-sm text-gray-300 ${metadata?.gps && options.keepMetadata ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={options.stripGps || !metadata?.gps}
+                  onChange={e => update({ stripGps: e.target.checked })}
+                  disabled={isExporting || !metadata?.gps || !options.keepMetadata}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                Remove GPS location
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.addProvenanceTag}
+                  onChange={e => update({ addProvenanceTag: e.target.checked })}
+                  disabled={isExporting}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                Tag as edited with AI
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.embedEditHistory}
+                  onChange={e => update({ embedEditHistory: e.target.checked })}
+                  disabled={isExporting}
+                  className="w-4 h-4 accent-purple-600"
+                />
+                Embed edit history (steps, prompts and times)
+              </label>
+            </>
+          ) : (
+            <p className="text-xs text-gray-500">{EXPORT_FORMATS[options.format].label} files are exported without metadata.</p>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={options.saveSidecar}
+              onChange={e => update({ saveSidecar: e.target.checked })}
+              disabled={isExporting}
+              className="w-4 h-4 accent-purple-600"
+            />
+            Also save edit history as JSON
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <label htmlFor="export-filename" className="text-sm font-medium text-gray-400">File Name</label>
+          <input
+            id="export-filename"
+            type="text"
+            value={options.filenameTemplate}
+            onChange={e => update({ filenameTemplate: e.target.value })}
+            disabled={isExporting}
+            className={inputClass}
+          />
+          <p className="text-xs text-gray-500">
+            {Object.entries(FILENAME_TOKENS).map(([token, description]) => (
+              <span key={token} title={description} className="font-mono mr-2">{token}</span>
+            ))}
+          </p>
+          <p className="text-sm text-gray-300 truncate" title={filename}>{filename}</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-t border-gray-700/50 pt-4">
+          <p className="text-sm text-gray-400">
+            Estimated size:{' '}
+            <span className="font-mono text-purple-300">
+              {isEstimating ? '…' : estimatedBytes !== null ? `~${formatFileSize(estimatedBytes)}` : 'unknown'}
+            </span>
+          </p>
+          <button
+            onClick={() => onExport(options)}
+            disabled={isExporting}
+            className="bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed"
+          >
+            {isExporting ? 'Exporting…' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { type ImageHistogram } from '../services/imageAnalysis';
+
+interface HistogramChartProps {
+  histogram: ImageHistogram | null;
+  showHighlightClipping: boolean;
+  showShadowClipping: boolean;
+  onShowHighlightClippingChange: (show: boolean) => void;
+  onShowShadowClippingChange: (show: boolean) => void;
+}
+
+const HEIGHT = 100;
+
+// Closed area path for one channel, scaled against the tallest bin of any channel
+const toAreaPath = (bins: Uint32Array, max: number): string => {
+  let d = `M0,${HEIGHT}`;
+  bins.forEach((count, x) => {
+    d += ` L${x},${HEIGHT - (count / max) * HEIGHT}`;
+  });
+  return `${d} L255,${HEIGHT} Z`;
+};
+
+const ClippingToggle: React.FC<{ label: string, active: boolean, color: string, onToggle: () => void }> = ({ label, active, color, onToggle }) => (
+  <button
+    onClick={onToggle}
+    aria-pressed={active}
+    className={`flex items-center gap-1.5 text-xs font-semibold px-2 py-1 rounded-md transition-colors ${active ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+  >
+    <span className={`w-2.5 h-2.5 rounded-sm ${color} ${active ? '' : 'opacity-40'}`} />
+    {label}
+  </button>
+);
+
+const HistogramChart: React.FC<HistogramChartProps> = ({
+  histogram,
+  showHighlightClipping,
+  showShadowClipping,
+  onShowHighlightClippingChange,
+  onShowShadowClippingChange,
+}) => {
+  const paths = useMemo(() => {
+    if (!histogram || histogram.sampleCount === 0) return null;
+    // Ignore the end bins when scaling, so a clipped spike does not flatten the rest of the graph
+    let max = 1;
+    [histogram.red, histogram.green, histogram.blue, histogram.luminance].forEach(bins => {
+      for (let i = 1; i < 255; i++) max = Math.max(max, bins[i]);
+    });
+    return {
+      red: toAreaPath(histogram.red, max),
+      green: toAreaPath(histogram.green, max),
+      blue: toAreaPath(histogram.blue, max),
+      luminance: toAreaPath(histogram.luminance, max),
+    };
+  }, [histogram]);
+
+  const clippedShare = (count: number) => histogram && histogram.sampleCount > 0
+    ? `${(count / histogram.sampleCount * 100).toFixed(1)}%`
+    : '–';
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <ClippingToggle
+          label={`Shadows ${clippedShare(histogram?.shadowClipped ?? 0)}`}
+          active={showShadowClipping}
+          color="bg-blue-500"
+          onToggle={() => onShowShadowClippingChange(!showShadowClipping)}
+        />
+        <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">Histogram</h4>
+        <ClippingToggle
+          label={`Highlights ${clippedShare(histogram?.highlightClipped ?? 0)}`}
+          active={showHighlightClipping}
+          color="bg-red-500"
+          onToggle={() => onShowHighlightClippingChange(!showHighlightClipping)}
+        />
+      </div>
+      <svg viewBox={`0 0 255 ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-24 bg-gray-800 rounded-lg">
+        {paths && (
+          <>
+            <path d={paths.luminance} fill="#9ca3af" fillOpacity={0.35} />
+            <g style={{ mixBlendMode: 'screen' }}>
+              <path d={paths.red} fill="#ef4444" fillOpacity={0.5} />
+              <path d={paths.green} fill="#22c55e" fillOpacity={0.5} />
+              <path d={paths.blue} fill="#3b82f6" fillOpacity={0.5} />
+            </g>
+          </>
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default HistogramChart;
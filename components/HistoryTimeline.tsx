@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { type HistoryNode, type HistoryTree, HISTORY_OPERATION_LABELS } from '../types';
+import { describeParams, getBranchTips, getLineage, getSiblings } from '../services/historyService';
+import { CompareIcon } from './icons';
+
+interface HistoryTimelineProps {
+  tree: HistoryTree;
+  /** The branch being viewed: the current step's lineage plus its redo states. */
+  branch: HistoryNode[];
+  historyIndex: number;
+  onSelectNode: (id: string) => void;
+  /** The node the comparison slider is showing against, if any. */
+  comparisonNodeId: string | null;
+  onCompareWithNode: (id: string | null) => void;
+  isLoading: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Object URLs for every node, created once per node and revoked when the node goes away
+const useNodeThumbnails = (nodes: HistoryTree['nodes']) => {
+  const cacheRef = useRef(new Map<string, string>());
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    let changed = false;
+    Object.values(nodes).forEach(node => {
+      if (!cache.has(node.id)) {
+        cache.set(node.id, URL.createObjectURL(node.file));
+        changed = true;
+      }
+    });
+    cache.forEach((url, id) => {
+      if (!nodes[id]) {
+        URL.revokeObjectURL(url);
+        cache.delete(id);
+        changed = true;
+      }
+    });
+    if (changed) setThumbnails(Object.fromEntries(cache));
+  }, [nodes]);
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      cache.forEach(url => URL.revokeObjectURL(url));
+      cache.clear();
+    };
+  }, []);
+
+  return thumbnails;
+};
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({
+  tree,
+  branch,
+  historyIndex,
+  onSelectNode,
+  comparisonNodeId,
+  onCompareWithNode,
+  isLoading,
+}) => {
+  const activeStepRef = useRef<HTMLButtonElement>(null);
+  const thumbnails = useNodeThumbnails(tree.nodes);
+  const branchTips = getBranchTips(tree);
+  const activeTipId = branch[branch.length - 1]?.id;
+
+  // Keep the current step in view as the user undoes/redoes
+  useEffect(() => {
+    activeStepRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+  }, [historyIndex]);
+
+  const renderSiblingSwitcher = (node: HistoryNode) => {
+    const siblings = getSiblings(tree, node.id);
+    if (siblings.length < 2) return null;
+    const position = siblings.findIndex(sibling => sibling.id === node.id);
+    const switchTo = (offset: number) => {
+      const target = siblings[(position + offset + siblings.length) % siblings.length];
+      onSelectNode(target.id);
+    };
+    return (
+      <div className="flex items-center justify-between text-[10px] text-fuchsia-300 bg-fuchsia-950/40 rounded px-1">
+        <button onClick={() => switchTo(-1)} disabled={isLoading} className="px-1 hover:text-white disabled:opacity-50" aria-label="Previous alternative">‹</button>
+        <span className="font-mono">alt {position + 1}/{siblings.length}</span>
+        <button onClick={() => switchTo(1)} disabled={isLoading} className="px-1 hover:text-white disabled:opacity-50" aria-label="Next alternative">›</button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full bg-gray-900 border border-gray-700/50 rounded-xl p-3 flex flex-col gap-2 backdrop-blur-sm">
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-sm font-semibold text-gray-300">History</h3>
+        <span className="text-xs font-mono text-gray-500">
+          Step {historyIndex} of {branch.length - 1}{branchTips.length > 1 ? ` · ${branchTips.length} branches` : ''}
+        </span>
+      </div>
+      <ol className="flex overflow-x-auto gap-2 pb-1">
+        {branch.map((entry, index) => {
+          const isCurrent = index === historyIndex;
+          const isUndone = index > historyIndex;
+          const paramsSummary = describeParams(entry);
+          return (
+            <li key={entry.id} className="flex-shrink-0 flex flex-col gap-1">
+              <button
+                ref={isCurrent ? activeStepRef : undefined}
+                onClick={() => onSelectNode(entry.id)}
+                disabled={isLoading || isCurrent}
+                title={entry.prompt}
+                aria-current={isCurrent ? 'step' : undefined}
+                className={`w-36 text-left rounded-lg overflow-hidden border-2 transition-all duration-200 disabled:cursor-default ${isCurrent ? 'border-purple-500 bg-purple-950/30' : 'border-gray-700 bg-gray-800/50 hover:border-purple-400'} ${isUndone ? 'opacity-50' : ''}`}
+              >
+                <div className="relative w-full h-20 bg-gray-800">
+                  {thumbnails[entry.id] && <img src={thumbnails[entry.id]} alt={`Step ${index}`} className="w-full h-full object-cover" />}
+                  <span className="absolute top-1 left-1 bg-black/60 text-white text-[10px] font-mono px-1.5 py-0.5 rounded">
+                    {index}
+                  </span>
+                </div>
+                <div className="p-1.5 flex flex-col gap-0.5">
+                  <div className="flex justify-between items-center gap-1">
+                    <span className="text-xs font-bold text-purple-300 truncate">{HISTORY_OPERATION_LABELS[entry.operation]}</span>
+                    <span className="text-[10px] text-gray-500 flex-shrink-0">{formatTime(entry.createdAt)}</span>
+                  </div>
+                  {entry.prompt && <p className="text-[11px] text-gray-400 truncate">{entry.prompt}</p>}
+                  {paramsSummary && <p className="text-[10px] text-gray-500 truncate">{paramsSummary}</p>}
+                </div>
+              </button>
+              {renderSiblingSwitcher(entry)}
+            </li>
+          );
+        })}
+      </ol>
+
+      {branchTips.length > 1 && (
+        <div className="flex flex-col gap-1 border-t border-gray-700/50 pt-2">
+          <h4 className="text-xs font-semibold text-gray-400 px-1">Branches</h4>
+          <ul className="flex overflow-x-auto gap-2 pb-1">
+            {branchTips.map((tip, branchNumber) => {
+              const isActive = tip.id === activeTipId;
+              const isCompared = tip.id === comparisonNodeId;
+              const stepCount = getLineage(tree, tip.id).length - 1;
+              return (
+                <li
+                  key={tip.id}
+                  className={`flex-shrink-0 flex items-center gap-2 p-1.5 rounded-lg border ${isActive ? 'border-purple-500 bg-purple-950/30' : 'border-gray-700 bg-gray-800/50'}`}
+                >
+                  {thumbnails[tip.id] && <img src={thumbnails[tip.id]} alt={`Branch ${branchNumber + 1}`} className="w-10 h-10 rounded object-cover" />}
+                  <div className="flex flex-col">
+                    <span className="text-xs font-bold text-gray-200">Branch {branchNumber + 1}</span>
+                    <span className="text-[10px] text-gray-500">{stepCount} {stepCount === 1 ? 'step' : 'steps'} · {HISTORY_OPERATION_LABELS[tip.operation]}</span>
+                  </div>
+                  <div className="flex flex-col gap-1 ml-1">
+                    <button
+                      onClick={() => onSelectNode(tip.id)}
+                      disabled={isLoading || tip.id === tree.currentId}
+                      className="text-[11px] font-semibold text-purple-300 bg-gray-700/50 rounded px-2 py-0.5 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Open
+                    </button>
+                    <button
+                      onClick={() => onCompareWithNode(isCompared ? null : tip.id)}
+                      disabled={isLoading || tip.id === tree.currentId}
+                      className={`flex items-center gap-1 text-[11px] font-semibold rounded px-2 py-0.5 disabled:opacity-50 disabled:cursor-not-allowed ${isCompared ? 'bg-purple-600 text-white' : 'text-gray-300 bg-gray-700/50 hover:bg-gray-700'}`}
+                      aria-label={`Compare current step with branch ${branchNumber + 1}`}
+                    >
+                      <CompareIcon className="w-3 h-3" />
+                      Compare
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTimeline;
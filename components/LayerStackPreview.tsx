@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { type Layer } from '../types';
+import { renderLayers } from '../services/layerService';
+
+interface LayerStackPreviewProps {
+  layers: Layer[];
+  className?: string;
+}
+
+/**
+ * Live preview of pending layer changes, rendered with the same compositor
+ * that flattens them into history.
+ */
+const LayerStackPreview: React.FC<LayerStackPreviewProps> = ({ layers, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isRendered, setIsRendered] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderLayers(layers)
+      .then(rendered => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = rendered.width;
+        canvas.height = rendered.height;
+        canvas.getContext('2d')?.putImageData(rendered, 0, 0);
+        setIsRendered(true);
+      })
+      .catch(err => console.error('Failed to render the layer preview', err));
+    return () => { cancelled = true; };
+  }, [layers]);
+
+  return <canvas ref={canvasRef} className={`${className ?? ''} ${isRendered ? '' : 'invisible'}`} />;
+};
+
+export default LayerStackPreview;
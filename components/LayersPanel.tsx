@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { type BlendMode, type Layer, type LayerKind, BLEND_MODE_LABELS } from '../types';
+import { moveLayer, updateLayer } from '../services/layerService';
+import { EyeIcon } from './icons';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  onLayersChange: (layers: Layer[]) => void;
+  onApply: () => void;
+  onReset: () => void;
+  hasChanges: boolean;
+  isLoading: boolean;
+}
+
+const LAYER_KIND_LABELS: Record<LayerKind, string> = {
+  base: 'Image',
+  edit: 'AI Edit',
+  adjustment: 'Adjustment',
+  mask: 'History Brush',
+};
+
+const LayersPanel: React.FC<LayersPanelProps> = ({ layers, onLayersChange, onApply, onReset, hasChanges, isLoading }) => {
+  const smallButtonClass = 'px-2 py-1 rounded-md text-sm font-semibold bg-gray-800 hover:bg-gray-700 border border-gray-700 text-gray-300 transition-all duration-200 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full bg-gray-900 border border-gray-700/50 rounded-xl p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div className="flex flex-col items-center gap-2">
+        <h3 className="text-lg font-semibold text-center text-gray-200">Layers</h3>
+        <p className="text-sm text-gray-400 text-center">Each edit is its own layer. Hide, fade, re-blend or reorder one without redoing the rest.</p>
+      </div>
+
+      <ul className="flex flex-col gap-2">
+        {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+          <li key={layer.id} className={`flex flex-col gap-2 bg-gray-800/50 rounded-lg p-3 ${layer.visible ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onLayersChange(updateLayer(layers, layer.id, { visible: !layer.visible }))}
+                disabled={isLoading}
+                className={`p-1 rounded-md transition-colors ${layer.visible ? 'text-purple-300 hover:text-purple-200' : 'text-gray-600 hover:text-gray-400'}`}
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                aria-pressed={layer.visible}
+              >
+                <EyeIcon className="w-5 h-5" />
+              </button>
+              <div className="flex-grow min-w-0">
+                <p className="text-sm font-semibold text-gray-200 truncate" title={layer.name}>{layer.name}</p>
+                <p className="text-xs text-gray-500">{LAYER_KIND_LABELS[layer.kind]}</p>
+              </div>
+              {layer.kind !== 'base' && (
+                <>
+                  <button
+                    onClick={() => onLayersChange(moveLayer(layers, layer.id, 'up'))}
+                    disabled={isLoading || index === layers.length - 1}
+                    className={smallButtonClass}
+                    title="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onLayersChange(moveLayer(layers, layer.id, 'down'))}
+                    disabled={isLoading || index <= 1}
+                    className={smallButtonClass}
+                    title="Move down"
+                  >
+                    ↓
+                  </button>
+                </>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="text-xs font-medium text-gray-400 w-14">Opacity</label>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(layer.opacity * 100)}
+                onChange={e => onLayersChange(updateLayer(layers, layer.id, { opacity: Number(e.target.value) / 100 }))}
+                disabled={isLoading}
+                className="flex-grow h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-purple-600 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:appearance-none"
+              />
+              <span className="text-xs font-mono text-purple-300 w-10 text-right">{Math.round(layer.opacity * 100)}%</span>
+              {layer.kind !== 'base' && (
+                <select
+                  value={layer.blendMode}
+                  onChange={e => onLayersChange(updateLayer(layers, layer.id, { blendMode: e.target.value as BlendMode }))}
+                  disabled={isLoading}
+                  className="bg-gray-800 border border-gray-700 text-gray-200 rounded-md px-2 py-1 text-xs focus:ring-2 focus:ring-purple-500 focus:outline-none"
+                  aria-label="Blend mode"
+                >
+                  {(Object.keys(BLEND_MODE_LABELS) as BlendMode[]).map(mode => (
+                    <option key={mode} value={mode}>{BLEND_MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onReset}
+          disabled={isLoading || !hasChanges}
+          className="w-full text-center bg-gray-800 border border-gray-700 text-gray-300 font-semibold py-3 px-5 rounded-lg transition-all duration-200 ease-in-out hover:bg-gray-700 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+        <button
+          onClick={onApply}
+          disabled={isLoading || !hasChanges}
+          className="w-full bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-3 px-5 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 text-center">Rendered on your device — no AI credits used. Layers are flattened when you download.</p>
+    </div>
+  );
+};
+
+export default LayersPanel;
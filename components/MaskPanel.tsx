@@ -3,19 +3,25 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { type HistoryEntry, HISTORY_OPERATION_LABELS } from '../types';
+import { type ImageSize } from '../services/cropService';
 
 interface MaskPanelProps {
-  history: File[];
+  history: HistoryEntry[];
   historyIndex: number;
+  /** Size of the current image; steps of another size, e.g. from before a crop, cannot be painted from. */
+  imageSize: ImageSize;
   brushSourceIndex: number | null;
   onBrushSourceIndexChange: (index: number) => void;
   brushSize: number;
   onBrushSizeChange: (size: number) => void;
   brushHardness: number;
   onBrushHardnessChange: (hardness: number) => void;
-  brushMode: 'brush' | 'erase';
-  onBrushModeChange: (mode: 'brush' | 'erase') => void;
+  /** Selection tools, shared with Retouch. */
+  toolbar: React.ReactNode;
   onApply: () => void;
+  /** Lets the AI blend the restored area into its surroundings instead of a plain composite. */
+  onRefine: () => void;
   onReset: () => void;
   isLoading: boolean;
   canApply: boolean;
@@ -28,15 +34,16 @@ interface MaskPanelProps {
 const MaskPanel: React.FC<MaskPanelProps> = ({
   history,
   historyIndex,
+  imageSize,
   brushSourceIndex,
   onBrushSourceIndexChange,
   brushSize,
   onBrushSizeChange,
   brushHardness,
   onBrushHardnessChange,
-  brushMode,
-  onBrushModeChange,
+  toolbar,
   onApply,
+  onRefine,
   onReset,
   isLoading,
   canApply,
@@ -45,7 +52,13 @@ const MaskPanel: React.FC<MaskPanelProps> = ({
   onRedoStroke,
   canRedoStroke
 }) => {
-  const historyThumbnails = React.useMemo(() => history.map((file) => URL.createObjectURL(file)), [history]);
+  const historyThumbnails = React.useMemo(() => history.map((entry) => URL.createObjectURL(entry.file)), [history]);
+  // Natural size of each step, read from its thumbnail once loaded
+  const [stepSizes, setStepSizes] = React.useState<Record<string, ImageSize>>({});
+  const matchesImage = (entry: HistoryEntry) => {
+    const size = stepSizes[entry.id];
+    return !!size && size.width === imageSize.width && size.height === imageSize.height;
+  };
   
   React.useEffect(() => {
     return () => {
@@ -58,22 +71,34 @@ const MaskPanel: React.FC<MaskPanelProps> = ({
       <div className="flex flex-col items-center gap-2">
          <h3 className="text-lg font-semibold text-center text-gray-200">History Brush</h3>
          <p className="text-sm text-gray-400 text-center">Select a previous edit, then paint on the image to restore parts of it.</p>
+         <p className="text-xs text-gray-500 text-center">Applying runs on your device — no AI credits used. Use "Blend with AI" for a seamless transition.</p>
       </div>
 
       <div className="flex flex-col gap-2">
         <label className="text-base font-medium text-gray-300">1. Select a version to paint from:</label>
         <div className="flex overflow-x-auto gap-2 p-2 bg-gray-800/50 rounded-lg">
-          {history.map((_, index) => {
+          {history.map((entry, index) => {
             if (index === historyIndex) return null; // Can't select the current state
+            const isSelectable = matchesImage(entry);
             return (
               <button
-                key={index}
+                key={entry.id}
                 onClick={() => onBrushSourceIndexChange(index)}
-                className={`relative w-24 h-24 flex-shrink-0 rounded-md overflow-hidden border-2 transition-all duration-200 ${brushSourceIndex === index ? 'border-purple-500 scale-105' : 'border-gray-700 hover:border-purple-400'}`}
+                disabled={!isSelectable}
+                title={isSelectable || !stepSizes[entry.id] ? entry.prompt : 'This version has a different size (e.g. before a crop) and cannot be painted from.'}
+                className={`relative w-24 h-24 flex-shrink-0 rounded-md overflow-hidden border-2 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${brushSourceIndex === index ? 'border-purple-500 scale-105' : 'border-gray-700 enabled:hover:border-purple-400'}`}
               >
-                <img src={historyThumbnails[index]} alt={`History state ${index}`} className="w-full h-full object-cover" />
+                <img
+                  src={historyThumbnails[index]}
+                  alt={`History state ${index}`}
+                  className="w-full h-full object-cover"
+                  onLoad={e => {
+                    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                    setStepSizes(sizes => ({ ...sizes, [entry.id]: { width, height } }));
+                  }}
+                />
                 <div className="absolute bottom-0 left-0 w-full bg-black/50 text-white text-xs text-center py-0.5">
-                  {index === 0 ? 'Original' : `Step ${index}`}
+                  {index === 0 ? 'Original' : `${index}. ${HISTORY_OPERATION_LABELS[entry.operation]}`}
                 </div>
               </button>
             )
@@ -82,18 +107,11 @@ const MaskPanel: React.FC<MaskPanelProps> = ({
       </div>
 
       <div className="flex flex-col gap-4">
-        <label className="text-base font-medium text-gray-300">2. Configure your brush:</label>
+        <label className="text-base font-medium text-gray-300">2. Mark the area to restore:</label>
+        <div className="bg-gray-800/50 rounded-lg p-3">
+            {toolbar}
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-gray-800/50 rounded-lg p-3">
-            <div className="flex items-center gap-2">
-                <div className="p-1 bg-gray-700/50 rounded-lg flex gap-1 w-full">
-                    <button onClick={() => onBrushModeChange('brush')} className={`w-full py-2 rounded-md font-semibold transition-all duration-200 text-sm ${brushMode === 'brush' ? 'bg-purple-600 text-white shadow' : 'text-gray-400 hover:bg-gray-700'}`}>
-                      Brush
-                    </button>
-                    <button onClick={() => onBrushModeChange('erase')} className={`w-full py-2 rounded-md font-semibold transition-all duration-200 text-sm ${brushMode === 'erase' ? 'bg-purple-600 text-white shadow' : 'text-gray-400 hover:bg-gray-700'}`}>
-                      Eraser
-                    </button>
-                </div>
-            </div>
             <div className="flex flex-col gap-2">
                 <div className="flex justify-between items-center">
                     <label className="text-sm font-medium text-gray-400">Size</label>
@@ -109,7 +127,7 @@ const MaskPanel: React.FC<MaskPanelProps> = ({
                     disabled={isLoading}
                 />
             </div>
-            <div className="flex flex-col gap-2 md:col-span-2">
+            <div className="flex flex-col gap-2">
                 <div className="flex justify-between items-center">
                     <label className="text-sm font-medium text-gray-400">Hardness</label>
                     <span className="text-sm font-mono text-purple-300 bg-gray-700/50 px-2 py-1 rounded w-16 text-center">{brushHardness}%</span>
@@ -149,12 +167,19 @@ const MaskPanel: React.FC<MaskPanelProps> = ({
         >
             Reset Mask
         </button>
+        <button
+            onClick={onRefine}
+            className="w-full text-center bg-gray-800 border border-gray-700 text-gray-300 font-semibold py-3 px-5 rounded-lg transition-all duration-200 ease-in-out hover:bg-gray-700 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={isLoading || !canApply || brushSourceIndex === null}
+        >
+            Blend with AI
+        </button>
         <button
             onClick={onApply}
             className="w-full bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-3 px-5 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed"
             disabled={isLoading || !canApply || brushSourceIndex === null}
         >
-            Apply with AI
+            Apply
         </button>
       </div>
 
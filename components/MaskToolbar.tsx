@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { type MaskTool } from './MaskingCanvas';
+import { type SegmentationTarget } from '../services/geminiService';
+
+interface MaskToolbarProps {
+  tool: MaskTool;
+  onToolChange: (tool: MaskTool) => void;
+  brushMode: 'brush' | 'erase';
+  onBrushModeChange: (mode: 'brush' | 'erase') => void;
+  /** Pixels used by grow, shrink and feather. */
+  refineAmount: number;
+  onRefineAmountChange: (amount: number) => void;
+  onInvert: () => void;
+  onGrow: () => void;
+  onShrink: () => void;
+  onFeather: () => void;
+  /** Replaces the selection with an AI segmentation of the current image. */
+  onAutoSelect: (target: SegmentationTarget) => void;
+  showRedOverlay: boolean;
+  onShowRedOverlayChange: (show: boolean) => void;
+  isLoading: boolean;
+}
+
+const tools: { id: MaskTool, label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'rectangle', label: 'Rectangle' },
+  { id: 'ellipse', label: 'Ellipse' },
+  { id: 'lasso', label: 'Lasso' },
+  { id: 'fill', label: 'Fill' },
+];
+
+const autoSelectTargets: { id: SegmentationTarget, label: string }[] = [
+  { id: 'subject', label: 'Subject' },
+  { id: 'background', label: 'Background' },
+  { id: 'sky', label: 'Sky' },
+];
+
+/**
+ * Selection tools and whole-mask refinements shared by Retouch and the history brush.
+ */
+const MaskToolbar: React.FC<MaskToolbarProps> = ({
+  tool,
+  onToolChange,
+  brushMode,
+  onBrushModeChange,
+  refineAmount,
+  onRefineAmountChange,
+  onInvert,
+  onGrow,
+  onShrink,
+  onFeather,
+  onAutoSelect,
+  showRedOverlay,
+  onShowRedOverlayChange,
+  isLoading,
+}) => {
+  const toggleClass = (active: boolean) => `w-full py-2 rounded-md font-semibold transition-all duration-200 text-sm disabled:opacity-50 ${active ? 'bg-purple-600 text-white shadow' : 'text-gray-400 hover:bg-gray-700'}`;
+  const refineButtonClass = 'w-full text-center bg-gray-800 border border-gray-700 text-gray-300 font-semibold py-2 px-3 rounded-lg transition-all duration-200 ease-in-out hover:bg-gray-700 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="p-1 bg-gray-700/50 rounded-lg flex gap-1">
+        {tools.map(({ id, label }) => (
+          <button key={id} onClick={() => onToolChange(id)} disabled={isLoading} className={toggleClass(tool === id)}>
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium text-gray-400">Select automatically</label>
+        <div className="flex items-center gap-2">
+          {autoSelectTargets.map(({ id, label }) => (
+            <button key={id} onClick={() => onAutoSelect(id)} disabled={isLoading} className={refineButtonClass}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="p-1 bg-gray-700/50 rounded-lg flex gap-1">
+          <button onClick={() => onBrushModeChange('brush')} disabled={isLoading} className={toggleClass(brushMode === 'brush')}>
+            Add
+          </button>
+          <button onClick={() => onBrushModeChange('erase')} disabled={isLoading} className={toggleClass(brushMode === 'erase')}>
+            Subtract
+          </button>
+        </div>
+        <label className="flex items-center justify-center gap-2 text-sm font-medium text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showRedOverlay}
+            onChange={e => onShowRedOverlayChange(e.target.checked)}
+            className="w-4 h-4 accent-purple-600"
+          />
+          Red overlay
+        </label>
+      </div>
+      <div className="flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+          <label className="text-sm font-medium text-gray-400">Refine Amount</label>
+          <span className="text-sm font-mono text-purple-300 bg-gray-700/50 px-2 py-1 rounded w-16 text-center">{refineAmount}px</span>
+        </div>
+        <input
+          type="range"
+          min="1"
+          max="50"
+          value={refineAmount}
+          onChange={e => onRefineAmountChange(Number(e.target.value))}
+          className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-purple-600 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:transition-transform [&::-webkit-slider-thumb]:active:scale-125"
+          disabled={isLoading}
+        />
+        <div className="flex items-center gap-2">
+          <button onClick={onGrow} disabled={isLoading} className={refineButtonClass}>Grow</button>
+          <button onClick={onShrink} disabled={isLoading} className={refineButtonClass}>Shrink</button>
+          <button onClick={onFeather} disabled={isLoading} className={refineButtonClass}>Feather</button>
+          <button onClick={onInvert} disabled={isLoading} className={refineButtonClass}>Invert</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaskToolbar;
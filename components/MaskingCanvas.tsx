@@ -3,81 +3,198 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { decodeToImageData } from '../services/compositing';
+import { encodeImage } from '../services/imageWorkerClient';
+import { readMaskValues, writeMaskValues, imageToMaskValues, invertMask, growMask, shrinkMask, featherMaskEdges, floodFillMask } from '../services/maskOperations';
+import { type MaskPatch, type MaskRegion, countSelectedPixels, createMaskPatch, trimToBudget, writePatch } from '../services/maskHistory';
+
+/** Freehand painting, a filled shape or lasso selection, or a bucket fill. */
+export type MaskTool = 'brush' | 'rectangle' | 'ellipse' | 'lasso' | 'fill';
 
 export interface MaskingCanvasRef {
   undo: () => void;
   redo: () => void;
+  invert: () => void;
+  /** Grows (positive) or shrinks (negative) the selection by that many screen pixels at 100% zoom. */
+  expand: (pixels: number) => void;
+  feather: (radius: number) => void;
+  /** Replaces the selection with a mask image (white = selected), scaled to fit. Undoable like a stroke. */
+  loadMask: (image: Blob) => Promise<void>;
+  /** Encodes the mask as a PNG. Done only when the mask is actually used, not after every stroke. */
+  exportMask: () => Promise<File | null>;
+}
+
+const RED_OVERLAY_FILTER_ID = 'masking-canvas-red-overlay';
+// The lightest pen touch still paints at this fraction of the brush size and opacity
+const MIN_PRESSURE = 0.2;
+// Touches this soon after pen activity are treated as a resting palm
+const PALM_REJECTION_MS = 500;
+
+interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const unionBounds = (a: Bounds | null, b: Bounds): Bounds => a ? {
+  left: Math.min(a.left, b.left),
+  top: Math.min(a.top, b.top),
+  right: Math.max(a.right, b.right),
+  bottom: Math.max(a.bottom, b.bottom),
+} : b;
+
+interface StrokePoint {
+  x: number;
+  y: number;
+  /** Effective pressure, 0–1. */
+  pressure: number;
 }
 
 interface MaskingCanvasProps {
+  /** Natural size of the image; the mask is authored at full resolution. */
   width: number;
   height: number;
+  /** Brush diameter in screen pixels at 100% zoom. */
   brushSize: number;
   brushHardness: number;
   brushMode: 'brush' | 'erase';
-  onMaskChange: (dataUrl: string) => void;
-  onDrawEnd: () => void;
+  tool?: MaskTool;
+  /** Shows the selection as a red tint instead of a light wash. */
+  showRedOverlay?: boolean;
+  /** Called after every committed change, with whether anything is selected. */
+  onMaskChange: (hasSelection: boolean) => void;
   resetTrigger: number;
   onUndoStateChange: (canUndo: boolean) => void;
   onRedoStateChange: (canRedo: boolean) => void;
 }
 
 const MaskingCanvas = forwardRef<MaskingCanvasRef, MaskingCanvasProps>(({
-    width, height, brushSize, brushHardness, brushMode, onMaskChange, onDrawEnd, resetTrigger, onUndoStateChange, onRedoStateChange
+    width, height, brushSize, brushHardness, brushMode, tool = 'brush', showRedOverlay = false, onMaskChange, resetTrigger, onUndoStateChange, onRedoStateChange
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isDrawing = useRef(false);
-  const lastPoint = useRef<{ x: number, y: number } | null>(null);
-  const historyStackRef = useRef<ImageData[]>([]);
-  const redoStackRef = useRef<ImageData[]>([]);
+  // Points of the brush stroke in progress, and the buffer it is rendered into
+  const strokePoints = useRef<StrokePoint[]>([]);
+  const strokeCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const activePointerId = useRef<number | null>(null);
+  const strokeScale = useRef(1);
+  // Region touched since the last redraw, so a stroke at full image resolution only repaints what changed
+  const dirtyBounds = useRef<Bounds | null>(null);
+  // Everything the action in progress has touched, the only part read back when it is committed
+  const strokeBounds = useRef<Bounds | null>(null);
+  const shapeBounds = useRef<Bounds | null>(null);
+  const lastPenActivity = useRef(-Infinity);
+  // Shape tools redraw their outline from the last committed state on every move
+  const shapePoints = useRef<{ x: number, y: number }[]>([]);
+  // The committed mask, kept in memory so strokes can be previewed over it,
+  // plus the changed rectangles needed to step back and forth
+  const committedRef = useRef<ImageData | null>(null);
+  const lastResetTrigger = useRef(resetTrigger);
+  const undoStackRef = useRef<MaskPatch[]>([]);
+  const redoStackRef = useRef<MaskPatch[]>([]);
+  // Kept up to date from each patch so checking for a selection never scans the mask
+  const selectedPixelsRef = useRef(0);
 
-  const getCtx = () => canvasRef.current?.getContext('2d');
+  const getCtx = () => canvasRef.current?.getContext('2d', { willReadFrequently: true });
+
+  const notifyChange = () => {
+    if (committedRef.current) onMaskChange(selectedPixelsRef.current > 0);
+    onUndoStateChange(undoStackRef.current.length > 0);
+    onRedoStateChange(redoStackRef.current.length > 0);
+  };
+
+  /**
+   * Clamps `bounds` to whole mask pixels, or null when nothing of it is on the mask.
+   */
+  const toRegion = (bounds: Bounds | null): MaskRegion | null => {
+    if (!bounds) return null;
+    const x = Math.max(0, Math.floor(bounds.left));
+    const y = Math.max(0, Math.floor(bounds.top));
+    const regionWidth = Math.min(width, Math.ceil(bounds.right)) - x;
+    const regionHeight = Math.min(height, Math.ceil(bounds.bottom)) - y;
+    if (regionWidth <= 0 || regionHeight <= 0) return null;
+    return { x, y, width: regionWidth, height: regionHeight };
+  };
+
+  /**
+   * Records what the canvas now shows in `current`, read at (x, y), as an undo step.
+   */
+  const commitRegion = (current: ImageData, x: number, y: number) => {
+    const committed = committedRef.current;
+    if (!committed) return;
+    const patch = createMaskPatch(committed, current, x, y);
+    if (!patch) return;
+    writePatch(committed, patch, 'after');
+    selectedPixelsRef.current += patch.selectedDelta;
 
-  const saveState = () => {
-    const ctx = getCtx();
-    if (!ctx || !canvasRef.current) return;
-    
     // A new action invalidates the redo history
     redoStackRef.current = [];
-    onRedoStateChange(false);
+    undoStackRef.current = trimToBudget([...undoStackRef.current, patch], redoStackRef.current);
+    notifyChange();
+  };
+
+  const commitStroke = (bounds: Bounds | null) => {
+    const ctx = getCtx();
+    const region = toRegion(bounds);
+    if (!ctx || !region) return;
+    commitRegion(ctx.getImageData(region.x, region.y, region.width, region.height), region.x, region.y);
+  };
+
+  const applyMaskOperation = (operation: (values: Uint8ClampedArray) => Uint8ClampedArray) => {
+    const ctx = getCtx();
+    if (!ctx) return;
+    const image = ctx.getImageData(0, 0, width, height);
+    writeMaskValues(operation(readMaskValues(image)), image);
+    ctx.putImageData(image, 0, 0);
+    commitRegion(image, 0, 0);
+  };
 
-    const imageData = ctx.getImageData(0, 0, canvasRef.current.width, canvasRef.current.height);
-    historyStackRef.current.push(imageData);
-    onUndoStateChange(historyStackRef.current.length > 1);
+  const restorePatch = (patch: MaskPatch, state: 'before' | 'after') => {
+    const ctx = getCtx();
+    const committed = committedRef.current;
+    if (!ctx || !committed) return;
+    writePatch(committed, patch, state);
+    ctx.putImageData(committed, 0, 0, patch.x, patch.y, patch.width, patch.height);
+    selectedPixelsRef.current += state === 'after' ? patch.selectedDelta : -patch.selectedDelta;
   };
 
   useImperativeHandle(ref, () => ({
+    invert: () => applyMaskOperation(invertMask),
+    expand: (pixels: number) => {
+      const amount = pixels * getScreenToMaskScale();
+      applyMaskOperation(values => amount >= 0
+        ? growMask(values, width, height, amount)
+        : shrinkMask(values, width, height, -amount));
+    },
+    feather: (radius: number) => {
+      const amount = radius * getScreenToMaskScale();
+      applyMaskOperation(values => featherMaskEdges(values, width, height, amount));
+    },
     undo: () => {
-      if (historyStackRef.current.length > 1) {
-        const currentState = historyStackRef.current.pop(); // Remove current state
-        if (currentState) {
-            redoStackRef.current.push(currentState);
-        }
-        const prevState = historyStackRef.current[historyStackRef.current.length - 1];
-        const ctx = getCtx();
-        if (ctx && prevState && canvasRef.current) {
-          ctx.putImageData(prevState, 0, 0);
-          onMaskChange(canvasRef.current.toDataURL('image/png'));
-        }
-        onUndoStateChange(historyStackRef.current.length > 1);
-        onRedoStateChange(redoStackRef.current.length > 0);
-      }
+      const patch = undoStackRef.current.pop();
+      if (!patch) return;
+      restorePatch(patch, 'before');
+      redoStackRef.current.push(patch);
+      notifyChange();
     },
     redo: () => {
-        if (redoStackRef.current.length > 0) {
-            const nextState = redoStackRef.current.pop();
-            if (nextState) {
-                historyStackRef.current.push(nextState);
-                const ctx = getCtx();
-                if (ctx && canvasRef.current) {
-                    ctx.putImageData(nextState, 0, 0);
-                    onMaskChange(canvasRef.current.toDataURL('image/png'));
-                }
-            }
-            onUndoStateChange(historyStackRef.current.length > 1);
-            onRedoStateChange(redoStackRef.current.length > 0);
-        }
-    }
+      const patch = redoStackRef.current.pop();
+      if (!patch) return;
+      restorePatch(patch, 'after');
+      undoStackRef.current.push(patch);
+      notifyChange();
+    },
+    loadMask: async (image: Blob) => {
+      const values = imageToMaskValues(await decodeToImageData(image, width, height));
+      applyMaskOperation(() => values);
+    },
+    exportMask: async () => {
+      const ctx = getCtx();
+      if (!ctx) return null;
+      const blob = await encodeImage(ctx.getImageData(0, 0, width, height), { type: 'image/png' });
+      return new File([blob], `mask-${Date.now()}.png`, { type: 'image/png' });
+    },
   }));
 
   useEffect(() => {
@@ -92,103 +209,321 @@ const MaskingCanvas = forwardRef<MaskingCanvasRef, MaskingCanvasProps>(({
     ctx.fillStyle = 'black';
     ctx.fillRect(0, 0, width, height);
 
-    // Reset history and save the initial blank state
-    historyStackRef.current = [];
+    // A new image size alone re-projects the existing mask instead of clearing it
+    const previous = committedRef.current;
+    const isReset = resetTrigger !== lastResetTrigger.current;
+    lastResetTrigger.current = resetTrigger;
+    if (!isReset && previous && (previous.width !== width || previous.height !== height) && selectedPixelsRef.current > 0) {
+      const source = document.createElement('canvas');
+      source.width = previous.width;
+      source.height = previous.height;
+      source.getContext('2d')?.putImageData(previous, 0, 0);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(source, 0, 0, width, height);
+    }
+
+    // Reset history (patches are tied to the old size) and keep the current state as the committed mask
+    undoStackRef.current = [];
     redoStackRef.current = [];
-    const initialImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    historyStackRef.current.push(initialImageData);
-    
-    onUndoStateChange(false);
-    onRedoStateChange(false);
+    committedRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    selectedPixelsRef.current = countSelectedPixels(committedRef.current);
+    strokeBounds.current = null;
+    notifyChange();
   }, [width, height, resetTrigger]);
 
-  const getCoords = (e: React.MouseEvent | React.TouchEvent): { x: number, y: number } | null => {
+  /**
+   * Maps a pointer position to mask pixels. The canvas is letterboxed like the
+   * image (object-contain), and its on-screen box already includes zoom and pan,
+   * so this stays correct at any zoom level and after the window is resized.
+   */
+  const getCoords = (e: { clientX: number, clientY: number }): { x: number, y: number } | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
     
     const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
-    
-    const xOnDisplayedCanvas = clientX - rect.left;
-    const yOnDisplayedCanvas = clientY - rect.top;
-    
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
+    const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+    const left = rect.left + (rect.width - canvas.width * scale) / 2;
+    const top = rect.top + (rect.height - canvas.height * scale) / 2;
 
     return {
-      x: xOnDisplayedCanvas * scaleX,
-      y: yOnDisplayedCanvas * scaleY
+      x: (e.clientX - left) / scale,
+      y: (e.clientY - top) / scale
     };
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
+  /**
+   * Mask pixels per screen pixel at 100% zoom, for sizes given in screen pixels.
+   * Layout size ignores the zoom transform, matching the brush cursor.
+   */
+  const getScreenToMaskScale = (): number => {
+    const canvas = canvasRef.current;
+    if (!canvas || !canvas.offsetWidth || !canvas.offsetHeight) return 1;
+    return Math.max(canvas.width / canvas.offsetWidth, canvas.height / canvas.offsetHeight);
+  };
+
+  // Pen pressure scales brush size and opacity; mice and fingers paint at full strength
+  const getPressure = (e: React.PointerEvent | PointerEvent): number =>
+    e.pointerType === 'pen' ? MIN_PRESSURE + (1 - MIN_PRESSURE) * Math.min(1, Math.max(0, e.pressure)) : 1;
+
+  const toStrokePoint = (e: React.PointerEvent | PointerEvent): StrokePoint | null => {
+    const point = getCoords(e);
+    return point ? { ...point, pressure: getPressure(e) } : null;
+  };
+
+  /**
+   * Re-renders the display from the committed mask plus the stroke buffer.
+   * The buffer is opaque grey and merged with lighten (add) or multiply
+   * (subtract), so overlapping dabs never build up beyond their pressure.
+   */
+  const renderStroke = () => {
+    const ctx = getCtx();
+    const strokeCanvas = strokeCanvasRef.current;
+    if (dirtyBounds.current) strokeBounds.current = unionBounds(strokeBounds.current, dirtyBounds.current);
+    const region = restoreCommitted(dirtyBounds.current);
+    dirtyBounds.current = null;
+    if (!ctx || !strokeCanvas || !region) return;
+    ctx.globalCompositeOperation = brushMode === 'erase' ? 'multiply' : 'lighten';
+    ctx.drawImage(strokeCanvas, region.x, region.y, region.width, region.height, region.x, region.y, region.width, region.height);
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  /**
+   * Puts the committed mask back within `bounds`, returning the clamped pixel region.
+   */
+  const restoreCommitted = (bounds: Bounds | null) => {
+    const ctx = getCtx();
+    const committed = committedRef.current;
+    const region = toRegion(bounds);
+    if (!ctx || !committed || !region) return null;
+    ctx.putImageData(committed, 0, 0, region.x, region.y, region.width, region.height);
+    return region;
+  };
+
+  const stamp = (strokeCtx: CanvasRenderingContext2D, point: StrokePoint) => {
+    const radius = (brushSize * strokeScale.current / 2) * point.pressure;
+    const level = Math.round(255 * point.pressure);
+    const [color, background] = brushMode === 'erase'
+      ? [`rgb(${255 - level}, ${255 - level}, ${255 - level})`, 'white']
+      : [`rgb(${level}, ${level}, ${level})`, 'black'];
+    const hardnessStop = Math.max(0.01, brushHardness / 100);
+
+    const gradient = strokeCtx.createRadialGradient(point.x, point.y, 0, point.x, point.y, radius);
+    gradient.addColorStop(0, color);
+    gradient.addColorStop(hardnessStop, color);
+    gradient.addColorStop(1, background);
+
+    strokeCtx.fillStyle = gradient;
+    strokeCtx.beginPath();
+    strokeCtx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+    strokeCtx.fill();
+    dirtyBounds.current = unionBounds(dirtyBounds.current, {
+      left: point.x - radius - 1,
+      top: point.y - radius - 1,
+      right: point.x + radius + 1,
+      bottom: point.y + radius + 1,
+    });
+  };
+
+  /**
+   * Stamps the Catmull-Rom segment from p1 to p2, with p0 and p3 as the
+   * neighbouring control points, so fast strokes curve instead of kinking.
+   */
+  const stampSegment = (strokeCtx: CanvasRenderingContext2D, p0: StrokePoint, p1: StrokePoint, p2: StrokePoint, p3: StrokePoint) => {
+    const spacing = Math.max(1, Math.min(brushSize / 4, 6) * strokeScale.current);
+    const steps = Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) / spacing));
+    const spline = (a: number, b: number, c: number, d: number, t: number) =>
+      0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t * t + (3 * b - a - 3 * c + d) * t * t * t);
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      stamp(strokeCtx, {
+        x: spline(p0.x, p1.x, p2.x, p3.x, t),
+        y: spline(p0.y, p1.y, p2.y, p3.y, t),
+        pressure: p1.pressure + (p2.pressure - p1.pressure) * t,
+      });
+    }
+  };
+
+  const getStrokeCtx = () => {
+    if (!strokeCanvasRef.current) strokeCanvasRef.current = document.createElement('canvas');
+    const strokeCanvas = strokeCanvasRef.current;
+    if (strokeCanvas.width !== width) strokeCanvas.width = width;
+    if (strokeCanvas.height !== height) strokeCanvas.height = height;
+    return strokeCanvas.getContext('2d');
+  };
+
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toStrokePoint(e);
+    if (!point) return;
+    if (tool === 'fill') {
+      applyMaskOperation(values => floodFillMask(values, width, height, point.x, point.y, brushMode === 'erase' ? 0 : 255));
+      return;
+    }
     isDrawing.current = true;
-    lastPoint.current = getCoords(e);
-    // Draw a single point on click
-    draw(e);
+    strokeBounds.current = null;
+    if (tool !== 'brush') {
+      shapePoints.current = [point];
+      return;
+    }
+
+    const strokeCtx = getStrokeCtx();
+    if (!strokeCtx) return;
+    strokeScale.current = getScreenToMaskScale();
+    strokeCtx.fillStyle = brushMode === 'erase' ? 'white' : 'black';
+    strokeCtx.fillRect(0, 0, width, height);
+    strokeCtx.globalCompositeOperation = brushMode === 'erase' ? 'darken' : 'lighten';
+    // Draw a single dab on click
+    strokePoints.current = [point];
+    stamp(strokeCtx, point);
+    renderStroke();
+  };
+
+  const drawShape = (currentPoint: { x: number, y: number }) => {
+    const ctx = getCtx();
+    const committed = committedRef.current;
+    const start = shapePoints.current[0];
+    if (!ctx || !committed || !start) return;
+
+    if (tool === 'lasso') shapePoints.current.push(currentPoint);
+    const points = tool === 'lasso' ? shapePoints.current : [start, currentPoint];
+    const bounds = {
+      left: Math.min(...points.map(point => point.x)) - 1,
+      top: Math.min(...points.map(point => point.y)) - 1,
+      right: Math.max(...points.map(point => point.x)) + 1,
+      bottom: Math.max(...points.map(point => point.y)) + 1,
+    };
+    // Clear the previous outline as well as the area the new one covers
+    restoreCommitted(unionBounds(shapeBounds.current, bounds));
+    shapeBounds.current = bounds;
+    strokeBounds.current = unionBounds(strokeBounds.current, bounds);
+    ctx.fillStyle = brushMode === 'erase' ? 'black' : 'white';
+    ctx.beginPath();
+    if (tool === 'rectangle') {
+      ctx.rect(start.x, start.y, currentPoint.x - start.x, currentPoint.y - start.y);
+    } else if (tool === 'ellipse') {
+      const radiusX = Math.abs(currentPoint.x - start.x) / 2;
+      const radiusY = Math.abs(currentPoint.y - start.y) / 2;
+      ctx.ellipse((start.x + currentPoint.x) / 2, (start.y + currentPoint.y) / 2, radiusX, radiusY, 0, 0, Math.PI * 2);
+    } else {
+      shapePoints.current.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+    }
+    ctx.fill();
   };
   
   const endDrawing = () => {
     if (!isDrawing.current) return;
     isDrawing.current = false;
-    lastPoint.current = null;
-    if (canvasRef.current) {
-        onMaskChange(canvasRef.current.toDataURL('image/png'));
-        saveState(); // Save state after drawing stroke is complete
+    // The last segment has no following point, so it ends on itself
+    const points = strokePoints.current;
+    const strokeCtx = strokeCanvasRef.current?.getContext('2d');
+    if (tool === 'brush' && strokeCtx && points.length >= 2) {
+      const n = points.length;
+      stampSegment(strokeCtx, points[Math.max(0, n - 3)], points[n - 2], points[n - 1], points[n - 1]);
+      renderStroke();
     }
-    onDrawEnd();
+    strokePoints.current = [];
+    shapePoints.current = [];
+    shapeBounds.current = null;
+    dirtyBounds.current = null;
+    commitStroke(strokeBounds.current); // Save state after drawing stroke is complete
+    strokeBounds.current = null;
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
+  /**
+   * Abandons the stroke in progress, e.g. when a second finger turns it into a pinch.
+   */
+  const cancelDrawing = () => {
     if (!isDrawing.current) return;
-    e.preventDefault();
-    const ctx = getCtx();
-    const currentPoint = getCoords(e);
-    if (!ctx || !currentPoint || !lastPoint.current) return;
-
-    ctx.globalCompositeOperation = brushMode === 'erase' ? 'destination-out' : 'source-over';
-
-    const distance = Math.hypot(currentPoint.x - lastPoint.current.x, currentPoint.y - lastPoint.current.y);
-    const angle = Math.atan2(currentPoint.y - lastPoint.current.y, currentPoint.x - lastPoint.current.x);
-    
-    const hardnessStop = Math.max(0.01, brushHardness / 100);
+    isDrawing.current = false;
+    strokePoints.current = [];
+    shapePoints.current = [];
+    shapeBounds.current = null;
+    dirtyBounds.current = null;
+    restoreCommitted(strokeBounds.current);
+    strokeBounds.current = null;
+  };
 
-    const step = Math.min(brushSize / 4, 6);
+  const draw = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    e.preventDefault();
+    // Coalesced events recover the samples a fast pen makes between frames
+    const samples = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = samples.length > 0 ? samples : [e.nativeEvent];
 
-    for (let i = 0; i < distance; i += step) {
-        const x = lastPoint.current.x + (Math.cos(angle) * i);
-        const y = lastPoint.current.y + (Math.sin(angle) * i);
+    if (tool !== 'brush') {
+      const currentPoint = getCoords(events[events.length - 1]);
+      if (currentPoint) drawShape(currentPoint);
+      return;
+    }
 
-        const gradient = ctx.createRadialGradient(x, y, 0, x, y, brushSize / 2);
-        gradient.addColorStop(0, 'white');
-        gradient.addColorStop(hardnessStop, 'white');
-        gradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+    const strokeCtx = strokeCanvasRef.current?.getContext('2d');
+    if (!strokeCtx) return;
+    for (const event of events) {
+      const point = toStrokePoint(event);
+      if (!point) continue;
+      const points = strokePoints.current;
+      points.push(point);
+      // Each segment is drawn once the point after it is known
+      const n = points.length;
+      if (n >= 3) stampSegment(strokeCtx, points[Math.max(0, n - 4)], points[n - 3], points[n - 2], points[n - 1]);
+    }
+    renderStroke();
+  };
 
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(x, y, brushSize / 2, 0, Math.PI * 2);
-        ctx.fill();
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'pen') lastPenActivity.current = e.timeStamp;
+    if (activePointerId.current !== null) {
+      // A second finger means a pinch or a resting palm, not part of the stroke
+      if (e.pointerType === 'touch') cancelDrawing();
+      return;
     }
+    // Palm rejection: ignore touches while a pen is in use
+    if (e.pointerType === 'touch' && e.timeStamp - lastPenActivity.current < PALM_REJECTION_MS) return;
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointerId.current = e.pointerId;
+    startDrawing(e);
+  };
 
-    lastPoint.current = currentPoint;
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'pen') lastPenActivity.current = e.timeStamp;
+    if (e.pointerId !== activePointerId.current) return;
+    draw(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerId.current) return;
+    activePointerId.current = null;
+    if (e.type === 'pointercancel') cancelDrawing();
+    else endDrawing();
   };
   
+  const overlayStyle: React.CSSProperties = showRedOverlay
+    ? { filter: `url(#${RED_OVERLAY_FILTER_ID})` }
+    : { mixBlendMode: 'screen', opacity: 0.5 };
+
   return (
+    <>
+    {showRedOverlay && (
+      // Maps coverage to a half-transparent red: the red channel becomes alpha
+      <svg width="0" height="0" className="absolute" aria-hidden="true">
+        <filter id={RED_OVERLAY_FILTER_ID} colorInterpolationFilters="sRGB">
+          <feColorMatrix type="matrix" values="0 0 0 0 1  0 0 0 0 0  0 0 0 0 0  0.5 0 0 0 0" />
+        </filter>
+      </svg>
+    )}
     <canvas
       ref={canvasRef}
       width={width}
       height={height}
-      className="absolute top-0 left-0 w-full h-full touch-none"
-      style={{ mixBlendMode: 'screen', opacity: 0.5, pointerEvents: 'all', cursor: 'none' }}
-      onMouseDown={startDrawing}
-      onMouseMove={draw}
-      onMouseUp={endDrawing}
-      onMouseLeave={endDrawing}
-      onTouchStart={startDrawing}
-      onTouchMove={draw}
-      onTouchEnd={endDrawing}
+      className="absolute top-0 left-0 w-full h-full object-contain touch-none"
+      style={{ ...overlayStyle, pointerEvents: 'all', cursor: tool === 'brush' ? 'none' : 'crosshair' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
     />
+    </>
   );
 });
 
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo } from 'react';
+import { type ProjectSummary } from '../services/projectStore';
+import { ClockIcon } from './icons';
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatRelativeTime = (timestamp: number): string => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, onOpen, onDelete }) => {
+  const thumbnailUrls = useMemo(
+    () => projects.map(project => project.thumbnail ? URL.createObjectURL(project.thumbnail) : null),
+    [projects]
+  );
+
+  useEffect(() => {
+    return () => {
+      thumbnailUrls.forEach(url => url && URL.revokeObjectURL(url));
+    };
+  }, [thumbnailUrls]);
+
+  if (projects.length === 0) return null;
+
+  return (
+    <section className="w-full max-w-7xl mx-auto py-12 px-8 animate-fade-in">
+      <div className="flex items-center gap-3 mb-6">
+        <ClockIcon className="w-6 h-6 text-purple-400" />
+        <h2 className="text-2xl font-bold text-gray-100">Recent Projects</h2>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+        {projects.map((project, index) => (
+          <div key={project.id} className="group relative bg-gray-900 border border-gray-700/50 rounded-lg overflow-hidden shadow-md">
+            <button
+              onClick={() => onOpen(project.id)}
+              className="w-full text-left"
+              aria-label={`Open ${project.name}`}
+            >
+              <div className="aspect-square w-full bg-gray-800">
+                {thumbnailUrls[index] && (
+                  <img src={thumbnailUrls[index]!} alt={project.name} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105" />
+                )}
+              </div>
+              <div className="p-2">
+                <p className="text-sm font-semibold text-gray-200 truncate">{project.name}</p>
+                <p className="text-xs text-gray-500">
+                  {formatRelativeTime(project.updatedAt)} · {project.stepCount} {project.stepCount === 1 ? 'step' : 'steps'}
+                </p>
+              </div>
+            </button>
+            <button
+              onClick={() => onDelete(project.id)}
+              className="absolute top-1 right-1 bg-red-500 text-white rounded-full h-6 w-6 flex items-center justify-center text-xs font-bold opacity-0 group-hover:opacity-100 transition-opacity"
+              aria-label={`Delete ${project.name}`}
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default RecentProjects;
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+interface RetouchPanelProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: () => void;
+  isLoading: boolean;
+  hasSelection: boolean;
+  /** Selection tools, shared with the history brush. */
+  toolbar: React.ReactNode;
+  showBrushSize: boolean;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  onUndoStroke: () => void;
+  canUndoStroke: boolean;
+  onRedoStroke: () => void;
+  canRedoStroke: boolean;
+  onClearSelection: () => void;
+}
+
+const RetouchPanel: React.FC<RetouchPanelProps> = ({
+  prompt,
+  onPromptChange,
+  onGenerate,
+  isLoading,
+  hasSelection,
+  toolbar,
+  showBrushSize,
+  brushSize,
+  onBrushSizeChange,
+  onUndoStroke,
+  canUndoStroke,
+  onRedoStroke,
+  canRedoStroke,
+  onClearSelection,
+}) => {
+  const secondaryButtonClass = 'w-full text-center bg-gray-800 border border-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-lg transition-all duration-200 ease-in-out hover:bg-gray-700 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full bg-gray-900 border border-gray-700/50 rounded-xl p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <p className="text-md text-gray-400 text-center">
+        {hasSelection ? 'Great! Now describe your edit — only the selected area will change.' : 'Select the area to edit by painting or drawing on the image.'}
+      </p>
+
+      <div className="flex flex-col gap-4 bg-gray-800/50 rounded-lg p-3">
+        {toolbar}
+        {showBrushSize && (
+          <div className="flex flex-col gap-2">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-gray-400">Brush Size</label>
+              <span className="text-sm font-mono text-purple-300 bg-gray-700/50 px-2 py-1 rounded w-16 text-center">{brushSize}px</span>
+            </div>
+            <input
+              type="range"
+              min="10"
+              max="200"
+              value={brushSize}
+              onChange={e => onBrushSizeChange(Number(e.target.value))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:bg-purple-600 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:transition-transform [&::-webkit-slider-thumb]:active:scale-125"
+              disabled={isLoading}
+            />
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <button onClick={onUndoStroke} disabled={isLoading || !canUndoStroke} className={secondaryButtonClass}>Undo</button>
+          <button onClick={onRedoStroke} disabled={isLoading || !canRedoStroke} className={secondaryButtonClass}>Redo</button>
+          <button onClick={onClearSelection} disabled={isLoading || !hasSelection} className={secondaryButtonClass}>Clear Selection</button>
+        </div>
+      </div>
+
+      <form onSubmit={(e) => { e.preventDefault(); onGenerate(); }} className="w-full flex items-center gap-3">
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => onPromptChange(e.target.value)}
+          placeholder={hasSelection ? "e.g., 'change my shirt color to blue'" : "First select an area on the image"}
+          className="flex-grow bg-gray-800 border-gray-700 text-gray-200 rounded-lg p-4 text-base focus:ring-2 focus:ring-purple-500 focus:border-purple-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 placeholder-gray-500"
+          disabled={isLoading || !hasSelection}
+        />
+        <button
+          type="submit"
+          className="bg-gradient-to-br from-purple-600 to-fuchsia-500 text-white font-bold py-4 px-8 text-base rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/30 hover:shadow-xl hover:shadow-purple-500/50 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-purple-400 disabled:to-fuchsia-300 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          disabled={isLoading || !prompt.trim() || !hasSelection}
+        >
+          Generate
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RetouchPanel;
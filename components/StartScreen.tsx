@@ -8,12 +8,17 @@
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon, PaintBrushIcon, PencilIcon, DownloadIcon, QuoteIcon } from './icons';
 import SpaceTunnelAnimation from './SpaceTunnelAnimation';
+import RecentProjects from './RecentProjects';
+import { type ProjectSummary } from '../services/projectStore';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
+  recentProjects: ProjectSummary[];
+  onOpenProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, recentProjects, onOpenProject, onDeleteProject }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -141,6 +146,9 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
             </div>
         </div>
       </div>
+
+      {/* Recent Projects Section */}
+      <RecentProjects projects={recentProjects} onOpen={onOpenProject} onDelete={onDeleteProject} />
       
       {/* Features Section */}
       <section className="w-full max-w-7xl mx-auto py-20 px-8">
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef, useState } from 'react';
+import { type CurveChannel, type CurvePoint, type ToneCurves } from '../types';
+import { buildCurveTable, identityCurve } from '../services/adjustmentPipeline';
+
+interface ToneCurveEditorProps {
+  curves: ToneCurves;
+  onChange: (curves: ToneCurves) => void;
+  disabled?: boolean;
+}
+
+const CHANNELS: { id: CurveChannel, label: string, stroke: string }[] = [
+  { id: 'rgb', label: 'RGB', stroke: '#e5e7eb' },
+  { id: 'red', label: 'Red', stroke: '#f87171' },
+  { id: 'green', label: 'Green', stroke: '#4ade80' },
+  { id: 'blue', label: 'Blue', stroke: '#60a5fa' },
+];
+
+// The curve area plus a margin so end points are not clipped
+const VIEW_MARGIN = 4;
+const VIEW_SIZE = 255 + VIEW_MARGIN * 2;
+
+// Points closer than this (in 0–255 units) to an existing point grab it instead of adding a new one
+const HIT_RADIUS = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Click on the curve area to add a point, drag points to shape the curve and
+ * double-click a point to remove it. The end points can only move vertically.
+ */
+const ToneCurveEditor: React.FC<ToneCurveEditorProps> = ({ curves, onChange, disabled }) => {
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  const points = curves[channel];
+  const { stroke } = CHANNELS.find(c => c.id === channel)!;
+
+  // Drawn from the same lookup table the pipeline uses, so the curve shown is the curve applied
+  const path = useMemo(() => {
+    const table = buildCurveTable(points);
+    return Array.from(table, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' ');
+  }, [points]);
+
+  const toCurveSpace = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(clamp((e.clientX - rect.left) / rect.width * VIEW_SIZE - VIEW_MARGIN, 0, 255)),
+      y: Math.round(clamp(255 - ((e.clientY - rect.top) / rect.height * VIEW_SIZE - VIEW_MARGIN), 0, 255)),
+    };
+  };
+
+  const updatePoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  const movePoint = (index: number, target: CurvePoint) => {
+    const isEndPoint = index === 0 || index === points.length - 1;
+    const x = isEndPoint ? points[index].x : clamp(target.x, points[index - 1].x + 1, points[index + 1].x - 1);
+    updatePoints(points.map((point, i) => i === index ? { x, y: target.y } : point));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const target = toCurveSpace(e);
+    let index = points.findIndex(point => Math.hypot(point.x - target.x, point.y - target.y) <= HIT_RADIUS);
+    if (index === -1) {
+      // Only add points strictly between the end points
+      if (target.x <= points[0].x || target.x >= points[points.length - 1].x) return;
+      index = points.findIndex(point => point.x > target.x);
+      updatePoints([...points.slice(0, index), target, ...points.slice(index)]);
+    }
+    dragIndexRef.current = index;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndexRef.current === null) return;
+    movePoint(dragIndexRef.current, toCurveSpace(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragIndexRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const removePoint = (index: number) => {
+    if (disabled || index === 0 || index === points.length - 1) return;
+    updatePoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1">
+        {CHANNELS.map(c => (
+          <button
+            key={c.id}
+            onClick={() => setChannel(c.id)}
+            className={`flex-1 py-1 rounded-md text-xs font-semibold transition-colors ${channel === c.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800'}`}
+          >
+            {c.label}
+          </button>
+        ))}
+        <button
+          onClick={() => updatePoints(identityCurve)}
+          disabled={disabled}
+          className="ml-2 px-2 py-1 rounded-md text-xs font-semibold text-gray-400 hover:bg-gray-800 disabled:opacity-50"
+        >
+          Reset
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`${-VIEW_MARGIN} ${-VIEW_MARGIN} ${VIEW_SIZE} ${VIEW_SIZE}`}
+        className={`w-full max-w-xs mx-auto aspect-square bg-gray-800 rounded-lg touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#374151" strokeWidth={1}>
+            <line x1={v} y1={0} x2={v} y2={255} />
+            <line x1={0} y1={v} x2={255} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={stroke} strokeWidth={2} />
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={point.x}
+            cy={255 - point.y}
+            r={5}
+            fill="#111827"
+            stroke={stroke}
+            strokeWidth={2}
+            onDoubleClick={() => removePoint(index)}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default ToneCurveEditor;
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { type CropTransform, type ImageSize, drawTransformed, getTransformedSize } from '../services/cropService';
+
+interface TransformedImageCanvasProps {
+  image: File;
+  transform: CropTransform;
+  /** Reports the natural size of `image` once it has been decoded. */
+  onSourceSize?: (size: ImageSize) => void;
+  className?: string;
+}
+
+// The preview only needs screen resolution; the crop itself is rendered from the full image
+const MAX_PREVIEW_SIZE = 2048;
+
+/**
+ * Shows the image flipped, rotated and straightened, as the crop tool sees it.
+ */
+const TransformedImageCanvas: React.FC<TransformedImageCanvasProps> = ({ image, transform, onSourceSize, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onSourceSizeRef = useRef(onSourceSize);
+  onSourceSizeRef.current = onSourceSize;
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let decoded: ImageBitmap | null = null;
+    createImageBitmap(image)
+      .then(result => {
+        if (cancelled) {
+          result.close();
+          return;
+        }
+        decoded = result;
+        setBitmap(result);
+        onSourceSizeRef.current?.({ width: result.width, height: result.height });
+      })
+      .catch(err => console.error('Failed to decode image for the crop preview', err));
+    return () => {
+      cancelled = true;
+      decoded?.close();
+      setBitmap(null);
+    };
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !bitmap) return;
+    const sourceSize = { width: bitmap.width, height: bitmap.height };
+    const bounds = getTransformedSize(sourceSize, transform);
+    const scale = Math.min(1, MAX_PREVIEW_SIZE / Math.max(bounds.width, bounds.height));
+    canvas.width = Math.max(1, Math.round(bounds.width * scale));
+    canvas.height = Math.max(1, Math.round(bounds.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawTransformed(ctx, bitmap, sourceSize, transform, scale);
+  }, [bitmap, transform]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default TransformedImageCanvas;
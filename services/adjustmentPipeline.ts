@@ -0,0 +1,356 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Deterministic, local implementation of the manual adjustment sliders.
+// The same function renders the live preview and bakes the final pixels, so
+// what the user sees in the Adjust tab is exactly what lands in history, and
+// no AI request (or budget) is involved.
+
+import { type CurvePoint, type ManualAdjustments } from '../types';
+import { decodeImage, encodeImage } from './imageWorkerClient';
+
+export const identityCurve: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const defaultAdjustments: ManualAdjustments = {
+    exposure: 0,
+    brightness: 100,
+    contrast: 100,
+    highlights: 0,
+    shadows: 0,
+    whites: 0,
+    blacks: 0,
+    temperature: 0,
+    tint: 0,
+    saturation: 100,
+    hue: 0,
+    vibrance: 100,
+    clarity: 0,
+    sharpness: 0,
+    vignette: 0,
+    toneCurve: { rgb: identityCurve, red: identityCurve, green: identityCurve, blue: identityCurve },
+};
+
+const clampByte = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+const isIdentityCurve = (points: CurvePoint[]) =>
+    points.length === identityCurve.length && points.every((point, i) => point.x === identityCurve[i].x && point.y === identityCurve[i].y);
+
+const hasToneCurve = (adjustments: ManualAdjustments) =>
+    !Object.values(adjustments.toneCurve).every(isIdentityCurve);
+
+export const isIdentityAdjustments = (adjustments: ManualAdjustments): boolean =>
+    (Object.keys(defaultAdjustments) as (keyof ManualAdjustments)[])
+        .every(key => key === 'toneCurve' ? !hasToneCurve(adjustments) : adjustments[key] === defaultAdjustments[key]);
+
+const signed = (value: number) => value > 0 ? `+${value}` : `${value}`;
+
+/**
+ * The non-default slider values, e.g. "Exposure +0.5 EV, Hue 15°, Tone curve".
+ */
+export const describeAdjustments = (adjustments: ManualAdjustments): string => {
+    const parts: string[] = [];
+    if (adjustments.exposure !== 0) parts.push(`Exposure ${signed(adjustments.exposure)} EV`);
+    if (adjustments.brightness !== 100) parts.push(`Brightness ${adjustments.brightness}%`);
+    if (adjustments.contrast !== 100) parts.push(`Contrast ${adjustments.contrast}%`);
+    if (adjustments.highlights !== 0) parts.push(`Highlights ${signed(adjustments.highlights)}`);
+    if (adjustments.shadows !== 0) parts.push(`Shadows ${signed(adjustments.shadows)}`);
+    if (adjustments.whites !== 0) parts.push(`Whites ${signed(adjustments.whites)}`);
+    if (adjustments.blacks !== 0) parts.push(`Blacks ${signed(adjustments.blacks)}`);
+    if (adjustments.temperature !== 0) parts.push(`Temperature ${signed(adjustments.temperature)}`);
+    if (adjustments.tint !== 0) parts.push(`Tint ${signed(adjustments.tint)}`);
+    if (adjustments.saturation !== 100) parts.push(`Saturation ${adjustments.saturation}%`);
+    if (adjustments.vibrance !== 100) parts.push(`Vibrance ${adjustments.vibrance}%`);
+    if (adjustments.hue !== 0) parts.push(`Hue ${adjustments.hue}°`);
+    if (adjustments.clarity !== 0) parts.push(`Clarity ${signed(adjustments.clarity)}`);
+    if (adjustments.sharpness !== 0) parts.push(`Sharpness ${adjustments.sharpness}%`);
+    if (adjustments.vignette !== 0) parts.push(`Vignette ${signed(adjustments.vignette)}`);
+    if (hasToneCurve(adjustments)) parts.push('Tone curve');
+    return parts.join(', ');
+};
+
+/**
+ * Maps every 0–255 input to its output on the curve through `points`, using
+ * monotone cubic (Fritsch–Carlson) interpolation so the curve never overshoots.
+ */
+export const buildCurveTable = (points: CurvePoint[]): Uint8ClampedArray => {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const table = new Uint8ClampedArray(256);
+    const n = sorted.length;
+    if (n < 2) {
+        for (let i = 0; i < 256; i++) table[i] = i;
+        return table;
+    }
+
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        const dx = sorted[i + 1].x - sorted[i].x;
+        slopes.push(dx === 0 ? 0 : (sorted[i + 1].y - sorted[i].y) / dx);
+    }
+    const tangents = sorted.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const magnitude = a * a + b * b;
+        if (magnitude > 9) {
+            const scale = 3 / Math.sqrt(magnitude);
+            tangents[i] = scale * a * slopes[i];
+            tangents[i + 1] = scale * b * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= sorted[0].x) { table[x] = sorted[0].y; continue; }
+        if (x >= sorted[n - 1].x) { table[x] = sorted[n - 1].y; continue; }
+        while (x > sorted[segment + 1].x) segment++;
+        const p0 = sorted[segment];
+        const p1 = sorted[segment + 1];
+        const h = p1.x - p0.x;
+        const t = (x - p0.x) / h;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        table[x] = Math.round(
+            (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment] +
+            (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1]
+        );
+    }
+    return table;
+};
+
+// The hue-rotate matrix from the CSS Filter Effects spec (luminance-preserving)
+const hueRotationMatrix = (degrees: number): number[] => {
+    const angle = degrees * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [
+        0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+    ];
+};
+
+// Exposure, white balance, brightness, contrast and the whites/blacks levels only
+// depend on the channel value, so they are folded into one lookup table per channel
+const buildChannelTables = (adjustments: ManualAdjustments): Float32Array[] => {
+    const exposure = Math.pow(2, adjustments.exposure);
+    const brightness = adjustments.brightness / 100;
+    const contrast = adjustments.contrast / 100;
+    const temperature = adjustments.temperature / 100;
+    const tint = adjustments.tint / 100;
+    const gains = [1 + temperature * 0.2, 1 - tint * 0.2, 1 - temperature * 0.2];
+    // Whites/blacks move the white and black points of a levels adjustment
+    const blackPoint = -adjustments.blacks * 0.25;
+    const whitePoint = 255 - adjustments.whites * 0.5;
+    const levelsScale = 255 / Math.max(1, whitePoint - blackPoint);
+
+    return gains.map(gain => {
+        const table = new Float32Array(256);
+        for (let i = 0; i < 256; i++) {
+            let value = i * exposure * gain * brightness;
+            value = (value - 127.5) * contrast + 127.5;
+            table[i] = (value - blackPoint) * levelsScale;
+        }
+        return table;
+    });
+};
+
+// Highlights/shadows shift the brightest and darkest tones, weighted by luminance
+const buildToneOffsets = (adjustments: ManualAdjustments): Float32Array | null => {
+    if (adjustments.highlights === 0 && adjustments.shadows === 0) return null;
+    const offsets = new Float32Array(256);
+    const highlights = adjustments.highlights / 100;
+    const shadows = adjustments.shadows / 100;
+    for (let i = 0; i < 256; i++) {
+        const luma = i / 255;
+        offsets[i] = (shadows * (1 - luma) * (1 - luma) + highlights * luma * luma) * 0.4 * 255;
+    }
+    return offsets;
+};
+
+// Separable box blur of a single-channel buffer, using running sums
+const boxBlur = (input: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    const temp = new Uint8ClampedArray(input.length);
+    const output = new Uint8ClampedArray(input.length);
+    const span = radius * 2 + 1;
+    for (let y = 0; y < height; y++) {
+        const row = y * width;
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) sum += input[row + Math.min(width - 1, Math.max(0, k))];
+        for (let x = 0; x < width; x++) {
+            temp[row + x] = sum / span;
+            sum += input[row + Math.min(width - 1, x + radius + 1)] - input[row + Math.max(0, x - radius)];
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) sum += temp[Math.min(height - 1, Math.max(0, k)) * width + x];
+        for (let y = 0; y < height; y++) {
+            output[y * width + x] = sum / span;
+            sum += temp[Math.min(height - 1, y + radius + 1) * width + x] - temp[Math.max(0, y - radius) * width + x];
+        }
+    }
+    return output;
+};
+
+// Local contrast: pushes each pixel away from its neighbourhood's luminance, mostly in the midtones
+const applyClarity = (pixels: Uint8ClampedArray, width: number, height: number, amount: number) => {
+    const luma = new Uint8ClampedArray(width * height);
+    for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+        luma[p] = 0.2126 * pixels[i] + 0.7152 * pixels[i + 1] + 0.0722 * pixels[i + 2];
+    }
+    const radius = Math.max(2, Math.round(Math.min(width, height) * 0.01));
+    const blurred = boxBlur(luma, width, height, radius);
+    for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+        const l = luma[p] / 255;
+        const delta = (luma[p] - blurred[p]) * amount * 4 * l * (1 - l);
+        pixels[i] = clampByte(pixels[i] + delta);
+        pixels[i + 1] = clampByte(pixels[i + 1] + delta);
+        pixels[i + 2] = clampByte(pixels[i + 2] + delta);
+    }
+};
+
+// Unsharp mask with a 3×3 box blur; edge pixels are left as they are
+const sharpen = (pixels: Uint8ClampedArray, width: number, height: number, amount: number) => {
+    const source = pixels.slice();
+    const stride = width * 4;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * stride + x * 4;
+            for (let c = 0; c < 3; c++) {
+                const p = i + c;
+                const blurred = (
+                    source[p - stride - 4] + source[p - stride] + source[p - stride + 4] +
+                    source[p - 4] + source[p] + source[p + 4] +
+                    source[p + stride - 4] + source[p + stride] + source[p + stride + 4]
+                ) / 9;
+                pixels[p] = source[p] + (source[p] - blurred) * amount;
+            }
+        }
+    }
+};
+
+/**
+ * Applies the manual adjustments to the pixels of `source`, returning new
+ * image data of the same size. Alpha is left untouched.
+ *
+ * Order: exposure and white balance, tone (brightness, contrast, levels,
+ * highlights/shadows), clarity, colour (hue, saturation, vibrance), tone
+ * curve, vignette, and finally sharpening.
+ */
+export const applyAdjustments = (source: ImageData, adjustments: ManualAdjustments): ImageData => {
+    const { width, height } = source;
+    const output = new ImageData(new Uint8ClampedArray(source.data), width, height);
+    if (isIdentityAdjustments(adjustments)) return output;
+
+    const pixels = output.data;
+    const [redTable, greenTable, blueTable] = buildChannelTables(adjustments);
+    const toneOffsets = buildToneOffsets(adjustments);
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        let r = redTable[pixels[i]];
+        let g = greenTable[pixels[i + 1]];
+        let b = blueTable[pixels[i + 2]];
+        if (toneOffsets) {
+            const offset = toneOffsets[clampByte(Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b))];
+            r += offset; g += offset; b += offset;
+        }
+        pixels[i] = clampByte(r);
+        pixels[i + 1] = clampByte(g);
+        pixels[i + 2] = clampByte(b);
+    }
+
+    if (adjustments.clarity !== 0) {
+        applyClarity(pixels, width, height, adjustments.clarity / 100);
+    }
+
+    const hue = adjustments.hue !== 0 ? hueRotationMatrix(adjustments.hue) : null;
+    const saturation = adjustments.saturation / 100;
+    const vibrance = (adjustments.vibrance - 100) / 100;
+    const { toneCurve } = adjustments;
+    const curves = hasToneCurve(adjustments)
+        ? (() => {
+            const master = buildCurveTable(toneCurve.rgb);
+            return [toneCurve.red, toneCurve.green, toneCurve.blue].map(points => {
+                const channel = buildCurveTable(points);
+                return channel.map((_, i) => channel[master[i]]);
+            });
+        })()
+        : null;
+    const vignette = adjustments.vignette / 100;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistanceSq = centerX * centerX + centerY * centerY;
+
+    for (let i = 0; i < pixels.length; i += 4) {
+        let r = pixels[i];
+        let g = pixels[i + 1];
+        let b = pixels[i + 2];
+
+        if (hue) {
+            const hr = r * hue[0] + g * hue[1] + b * hue[2];
+            const hg = r * hue[3] + g * hue[4] + b * hue[5];
+            const hb = r * hue[6] + g * hue[7] + b * hue[8];
+            r = hr; g = hg; b = hb;
+        }
+
+        if (saturation !== 1 || vibrance !== 0) {
+            const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            // Vibrance boosts muted colours more than already saturated ones
+            const currentSaturation = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+            const factor = saturation * (1 + vibrance * (1 - Math.min(1, currentSaturation)));
+            r = luma + (r - luma) * factor;
+            g = luma + (g - luma) * factor;
+            b = luma + (b - luma) * factor;
+        }
+
+        if (curves) {
+            r = curves[0][clampByte(Math.round(r))];
+            g = curves[1][clampByte(Math.round(g))];
+            b = curves[2][clampByte(Math.round(b))];
+        }
+
+        if (vignette !== 0) {
+            const pixel = i / 4;
+            const dx = (pixel % width) - centerX;
+            const dy = Math.floor(pixel / width) - centerY;
+            const falloff = (dx * dx + dy * dy) / maxDistanceSq;
+            const factor = 1 + vignette * falloff * falloff * 1.5;
+            r *= factor; g *= factor; b *= factor;
+        }
+
+        pixels[i] = clampByte(r);
+        pixels[i + 1] = clampByte(g);
+        pixels[i + 2] = clampByte(b);
+    }
+
+    if (adjustments.sharpness > 0) {
+        sharpen(pixels, width, height, adjustments.sharpness / 50);
+    }
+
+    return output;
+};
+
+/**
+ * Decodes an image file into pixel data, at full resolution unless `maxDimension` caps the longer side.
+ */
+export const loadImageData = (file: Blob, maxDimension?: number): Promise<ImageData> => decodeImage(file, { maxDimension });
+
+/**
+ * Renders the adjusted image at full resolution and encodes it as a PNG file.
+ */
+export const bakeAdjustments = async (file: File, adjustments: ManualAdjustments): Promise<File> => {
+    const adjusted = applyAdjustments(await loadImageData(file), adjustments);
+    const blob = await encodeImage(adjusted, { type: 'image/png' });
+    return new File([blob], `adjusted-${Date.now()}.png`, { type: 'image/png' });
+};
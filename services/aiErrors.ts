@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Typed errors for AI requests. Providers and the budget check throw
+// AIServiceError so the UI can decide how to present a failure (and whether
+// offering a retry makes sense) without parsing message strings.
+
+export type AIErrorKind =
+    | 'network'         // Could not reach the backend at all
+    | 'timeout'         // The request took longer than allowed
+    | 'quota'           // Monthly budget or upstream rate limit exhausted
+    | 'safety'          // The model refused the request or blocked its output
+    | 'invalid_image'   // The image could not be read or is not accepted
+    | 'invalid_request' // Anything else the caller has to fix before retrying
+    | 'server'          // 5xx or malformed response from the backend
+    | 'unknown';
+
+interface AIErrorPresentation {
+    title: string;
+    hint: string;
+    retryable: boolean;
+}
+
+const PRESENTATION: Record<AIErrorKind, AIErrorPresentation> = {
+    network: {
+        title: 'Connection Problem',
+        hint: 'Check that the Vixel backend is running and reachable, then try again.',
+        retryable: true,
+    },
+    timeout: {
+        title: 'Request Timed Out',
+        hint: 'The AI took too long to respond. Large images take longer; try again or use a smaller image.',
+        retryable: true,
+    },
+    quota: {
+        title: 'Usage Limit Reached',
+        hint: 'No further AI requests can be made until the limit resets.',
+        retryable: false,
+    },
+    safety: {
+        title: 'Request Blocked',
+        hint: 'The AI declined this edit. Try rephrasing your prompt or choosing a different area.',
+        retryable: false,
+    },
+    invalid_image: {
+        title: 'Image Not Supported',
+        hint: 'Use a JPG, PNG, WEBP, or GIF image that is not corrupted or excessively large.',
+        retryable: false,
+    },
+    invalid_request: {
+        title: 'Cannot Apply Edit',
+        hint: 'Adjust your input and try again.',
+        retryable: false,
+    },
+    server: {
+        title: 'Server Error',
+        hint: 'The backend ran into a problem. This is usually temporary, so try again in a moment.',
+        retryable: true,
+    },
+    unknown: {
+        title: 'Something Went Wrong',
+        hint: 'Try again. If the problem persists, reload the page.',
+        retryable: true,
+    },
+};
+
+interface AIServiceErrorOptions {
+    status?: number;
+    hint?: string;
+    retryable?: boolean;
+    cause?: unknown;
+}
+
+export class AIServiceError extends Error {
+    readonly kind: AIErrorKind;
+    readonly title: string;
+    readonly hint: string;
+    readonly retryable: boolean;
+    /** HTTP status of the backend response, when there was one. */
+    readonly status?: number;
+
+    constructor(kind: AIErrorKind, message: string, options: AIServiceErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'AIServiceError';
+        this.kind = kind;
+        this.title = PRESENTATION[kind].title;
+        this.hint = options.hint ?? PRESENTATION[kind].hint;
+        this.retryable = options.retryable ?? PRESENTATION[kind].retryable;
+        this.status = options.status;
+    }
+}
+
+const SAFETY_PATTERN = /safety|blocked|prohibited|policy|refus/i;
+const IMAGE_PATTERN = /image|decode|mime|format|dimension/i;
+
+const kindFromStatus = (status: number, message: string): AIErrorKind => {
+    if (status === 408 || status === 504) return 'timeout';
+    if (status === 402 || status === 429) return 'quota';
+    if (status === 413 || status === 415) return 'invalid_image';
+    if (status >= 500) return 'server';
+    if (SAFETY_PATTERN.test(message)) return 'safety';
+    if (IMAGE_PATTERN.test(message)) return 'invalid_image';
+    return 'invalid_request';
+};
+
+/**
+ * Builds an error from a non-OK backend response. Accepts either a plain text
+ * body or JSON of the form `{ error, code }`, where `code` may name an AIErrorKind.
+ */
+export const errorFromResponse = async (response: Response): Promise<AIServiceError> => {
+    const body = await response.text().catch(() => '');
+    let message = body;
+    let code: string | undefined;
+
+    try {
+        const parsed = JSON.parse(body);
+        if (parsed && typeof parsed === 'object') {
+            message = parsed.error || parsed.message || body;
+            code = typeof parsed.code === 'string' ? parsed.code.toLowerCase() : undefined;
+        }
+    } catch {
+        // Plain text body
+    }
+
+    const kind = code && code in PRESENTATION
+        ? code as AIErrorKind
+        : kindFromStatus(response.status, message);
+
+    return new AIServiceError(kind, message || `Backend processing failed (HTTP ${response.status})`, {
+        status: response.status,
+        // Rate limits clear up on their own, unlike the monthly budget
+        retryable: response.status === 429 ? true : undefined,
+    });
+};
+
+/**
+ * Normalises anything thrown during an AI request into an AIServiceError.
+ * Abort errors should be filtered out by the caller before this is used.
+ * Connection failures are classified where fetch is called, so anything
+ * else arriving here unclassified is reported as unknown.
+ */
+export const toAIServiceError = (err: unknown): AIServiceError => {
+    if (err instanceof AIServiceError) return err;
+    const message = err instanceof Error ? err.message : 'An unknown error occurred.';
+    return new AIServiceError('unknown', message, { cause: err });
+};
@@ -0,0 +1,386 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Pluggable AI providers. geminiService builds the prompts and hands them to
+// whichever provider is active: the Go backend in normal use, or a local mock
+// that transforms images deterministically so the editor can be developed and
+// tested offline without the server or a Gemini key.
+
+import { AIServiceError, errorFromResponse } from "./aiErrors";
+import { dataUrlToBlob } from "./imageWorkerClient";
+
+export type AIProviderKind = 'backend' | 'mock';
+
+/**
+ * Images sent alongside a prompt, keyed by the field name the backend expects
+ * (e.g. "image", "content"/"style", "base"/"source"/"mask").
+ */
+export type AIProviderImages = Record<string, File>;
+
+/** What an automatic selection should pick out of the image. */
+export type SegmentationTarget = 'subject' | 'background' | 'sky';
+
+export interface AIProvider {
+    readonly kind: AIProviderKind;
+    /**
+     * Runs a prompt against the given images and resolves to the resulting image.
+     * Rejects with an AbortError if the signal is aborted before the result arrives.
+     */
+    process: (prompt: string, images: AIProviderImages, signal?: AbortSignal) => Promise<Blob>;
+    /**
+     * Asks for a greyscale mask of `target` (white = selected) and resolves to it as an image.
+     * The backend goes by the prompt alone; the target tells the mock what to look for.
+     */
+    segment: (prompt: string, image: File, target: SegmentationTarget, signal?: AbortSignal) => Promise<Blob>;
+}
+
+/**
+ * True for the rejection produced by aborting a request through its AbortSignal.
+ */
+export const isAbortError = (err: unknown): boolean => {
+    return err instanceof DOMException && err.name === 'AbortError';
+};
+
+const DEFAULT_BACKEND_BASE_URL = "http://localhost:8080";
+const PROCESS_ENDPOINT = "/api/process";
+const DEFAULT_TIMEOUT_MS = 120_000;
+// Binary responses are preferred; JSON with a data URL is what older servers,
+// including the Go server in this repository for now, send
+const ACCEPT_HEADER = "image/*, multipart/form-data;q=0.9, application/json;q=0.5";
+
+const unreadableResponse = (cause: unknown) =>
+    new AIServiceError('server', 'The server returned an unreadable response.', { cause });
+
+/**
+ * Reads the result image from a successful backend response: an image/* body,
+ * a multipart body with an image part (preferably named "image"), or JSON
+ * `{ imageUrl }` holding a data URL.
+ */
+const readImageResponse = async (response: Response): Promise<Blob> => {
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (contentType.startsWith("image/")) {
+        return response.blob().catch((err: unknown) => { throw unreadableResponse(err); });
+    }
+
+    if (contentType.startsWith("multipart/")) {
+        const form = await response.formData().catch((err: unknown) => { throw unreadableResponse(err); });
+        const named = form.get("image");
+        const image = named instanceof File
+            ? named
+            : [...form.values()].find((value): value is File => value instanceof File && value.type.startsWith("image/"));
+        if (image) return image;
+        const error = form.get("error");
+        throw new AIServiceError('server', typeof error === "string" && error ? error : "No image was returned from the server");
+    }
+
+    const data = await response.json().catch((err: unknown) => { throw unreadableResponse(err); });
+    if (!data.imageUrl) {
+        throw new AIServiceError('server', data.error || "No image was returned from the server");
+    }
+    return dataUrlToBlob(data.imageUrl);
+};
+
+/**
+ * Provider that posts FormData to the Go backend.
+ * @param baseUrl The server origin (and optional path prefix), without a trailing slash.
+ * @param timeoutMs How long to wait for a response before failing with a 'timeout' error.
+ */
+export const createBackendProvider = (
+    baseUrl: string = DEFAULT_BACKEND_BASE_URL,
+    timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): AIProvider => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}${PROCESS_ENDPOINT}`;
+
+    const postToBackend: AIProvider['process'] = async (prompt, images, signal) => {
+        const formData = new FormData();
+        formData.append("prompt", prompt);
+        Object.entries(images).forEach(([field, file]) => formData.append(field, file));
+
+        // Our own controller so the timeout and the caller's signal can both abort the fetch
+        const controller = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        const forwardAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', forwardAbort, { once: true });
+
+        try {
+            const response = await fetch(endpoint, {
+                method: "POST",
+                headers: { Accept: ACCEPT_HEADER },
+                body: formData,
+                signal: controller.signal,
+            }).catch((err: unknown) => {
+                // fetch rejects with a TypeError when the server cannot be reached
+                if (err instanceof TypeError) {
+                    throw new AIServiceError('network', 'Could not connect to the AI backend.', { cause: err });
+                }
+                throw err;
+            });
+
+            if (!response.ok) {
+                throw await errorFromResponse(response);
+            }
+
+            return await readImageResponse(response);
+        } catch (err) {
+            if (timedOut) {
+                throw new AIServiceError('timeout', `No response from the AI backend after ${Math.round(timeoutMs / 1000)}s.`, { cause: err });
+            }
+            throw err;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forwardAbort);
+        }
+    };
+
+    return {
+        kind: 'backend',
+        process: postToBackend,
+        segment: (prompt, image, _target, signal) => postToBackend(prompt, { image }, signal),
+    };
+};
+
+// --- Mock provider ---
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// FNV-1a, so the same prompt always produces the same tint.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const hueToRgb = (hue: number): [number, number, number] => {
+    const k = (n: number) => (n + hue / 60) % 6;
+    const f = (n: number) => 255 * (1 - Math.max(0, Math.min(k(n), 4 - k(n), 1)));
+    return [f(5), f(3), f(1)];
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new Error("The mock provider could not encode its result")),
+    'image/png',
+));
+
+const drawToCanvas = async (file: File, width?: number, height?: number) => {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = width ?? bitmap.width;
+    canvas.height = height ?? bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Could not create a canvas context for the mock provider");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return { canvas, ctx };
+};
+
+const averageColor = (data: Uint8ClampedArray): [number, number, number] => {
+    let r = 0, g = 0, b = 0;
+    const pixels = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+        r += data[i];
+        g += data[i + 1];
+        b += data[i + 2];
+    }
+    return [r / pixels, g / pixels, b / pixels];
+};
+
+const tintPixels = (data: Uint8ClampedArray, tint: [number, number, number], amount: number) => {
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] += (tint[0] - data[i]) * amount;
+        data[i + 1] += (tint[1] - data[i + 1]) * amount;
+        data[i + 2] += (tint[2] - data[i + 2]) * amount;
+    }
+};
+
+const mockComposite = async (images: AIProviderImages) => {
+    const { canvas, ctx } = await drawToCanvas(images.base);
+    const { width, height } = canvas;
+    const source = await drawToCanvas(images.source, width, height);
+    const mask = await drawToCanvas(images.mask, width, height);
+
+    const out = ctx.getImageData(0, 0, width, height);
+    const src = source.ctx.getImageData(0, 0, width, height).data;
+    const m = mask.ctx.getImageData(0, 0, width, height).data;
+    for (let i = 0; i < out.data.length; i += 4) {
+        const alpha = m[i] / 255; // white = source, black = base
+        out.data[i] += (src[i] - out.data[i]) * alpha;
+        out.data[i + 1] += (src[i + 1] - out.data[i + 1]) * alpha;
+        out.data[i + 2] += (src[i + 2] - out.data[i + 2]) * alpha;
+    }
+    ctx.putImageData(out, 0, 0);
+    return canvas;
+};
+
+const mockStyleTransfer = async (images: AIProviderImages, prompt: string) => {
+    const { canvas, ctx } = await drawToCanvas(images.content);
+    const style = await drawToCanvas(images.style, 32, 32);
+    const styleColor = averageColor(style.ctx.getImageData(0, 0, 32, 32).data);
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    tintPixels(imageData.data, styleColor, 0.2 + (hashString(prompt) % 20) / 100);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
+
+const mockTint = async (image: File, prompt: string) => {
+    const { canvas, ctx } = await drawToCanvas(image);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    tintPixels(imageData.data, hueToRgb(hashString(prompt) % 360), 0.25);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
+
+// Segmentation runs on a thumbnail; the mask is scaled back up, which also softens its edges
+const SEGMENTATION_SIZE = 256;
+
+const isSkyLike = (r: number, g: number, b: number) => {
+    const brightness = (r + g + b) / 3;
+    const isBlue = b >= r && b >= g * 0.9 && brightness > 110;
+    const isOvercast = brightness > 200 && Math.max(r, g, b) - Math.min(r, g, b) < 30;
+    return isBlue || isOvercast;
+};
+
+/**
+ * Subject: pixels that differ from the colour along the border, favouring the centre.
+ * Sky: blue or overcast pixels reachable from the top edge without crossing anything else.
+ */
+const mockSegment = async (image: File, target: SegmentationTarget) => {
+    const { canvas, ctx } = await drawToCanvas(image);
+    const scale = Math.min(1, SEGMENTATION_SIZE / Math.max(canvas.width, canvas.height));
+    const width = Math.max(1, Math.round(canvas.width * scale));
+    const height = Math.max(1, Math.round(canvas.height * scale));
+    const small = document.createElement('canvas');
+    small.width = width;
+    small.height = height;
+    const smallCtx = small.getContext('2d', { willReadFrequently: true });
+    if (!smallCtx) throw new Error("Could not create a canvas context for the mock provider");
+    smallCtx.drawImage(canvas, 0, 0, width, height);
+    const imageData = smallCtx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    const coverage = new Uint8ClampedArray(width * height);
+
+    if (target === 'sky') {
+        for (let x = 0; x < width; x++) {
+            for (let y = 0; y < height; y++) {
+                const i = (y * width + x) * 4;
+                if (!isSkyLike(data[i], data[i + 1], data[i + 2])) break;
+                coverage[y * width + x] = 255;
+            }
+        }
+    } else {
+        const band = Math.max(1, Math.round(Math.min(width, height) * 0.05));
+        const border: number[] = [];
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (x >= band && y >= band && x < width - band && y < height - band) continue;
+                const i = (y * width + x) * 4;
+                border.push(data[i], data[i + 1], data[i + 2], 255);
+            }
+        }
+        const [br, bg, bb] = averageColor(Uint8ClampedArray.from(border));
+        const scores = new Float32Array(width * height);
+        let total = 0;
+        for (let p = 0; p < scores.length; p++) {
+            const i = p * 4;
+            const dx = (p % width) / width - 0.5;
+            const dy = Math.floor(p / width) / height - 0.5;
+            const centreWeight = Math.max(0, 1 - (dx * dx + dy * dy) * 2);
+            scores[p] = Math.hypot(data[i] - br, data[i + 1] - bg, data[i + 2] - bb) * centreWeight;
+            total += scores[p];
+        }
+        const threshold = total / scores.length;
+        for (let p = 0; p < scores.length; p++) {
+            const isSubject = scores[p] > threshold;
+            coverage[p] = isSubject === (target === 'subject') ? 255 : 0;
+        }
+    }
+
+    for (let p = 0; p < coverage.length; p++) {
+        const i = p * 4;
+        data[i] = data[i + 1] = data[i + 2] = coverage[p];
+        data[i + 3] = 255;
+    }
+    smallCtx.putImageData(imageData, 0, 0);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+/**
+ * Provider that never leaves the browser. Results depend only on the prompt and
+ * the input pixels: single images get a tint derived from a hash of the prompt,
+ * style transfer tints towards the style image's average colour, mask
+ * composition performs the actual blend, and segmentation uses simple colour
+ * heuristics.
+ * @param latencyMs Artificial delay so loading states can be exercised.
+ */
+export const createMockProvider = (latencyMs: number = 0): AIProvider => ({
+    kind: 'mock',
+    process: async (prompt, images, signal) => {
+        await wait(latencyMs, signal);
+
+        let canvas: HTMLCanvasElement;
+        if (images.base && images.source && images.mask) {
+            canvas = await mockComposite(images);
+        } else if (images.content && images.style) {
+            canvas = await mockStyleTransfer(images, prompt);
+        } else {
+            const primary = images.image ?? Object.values(images)[0];
+            if (!primary) throw new Error("No image was provided to the mock provider");
+            canvas = await mockTint(primary, prompt);
+        }
+        signal?.throwIfAborted();
+        return canvasToPng(canvas);
+    },
+    segment: async (_prompt, image, target, signal) => {
+        await wait(latencyMs, signal);
+        const canvas = await mockSegment(image, target);
+        signal?.throwIfAborted();
+        return canvasToPng(canvas);
+    },
+});
+
+// --- Active provider ---
+
+const createProviderFromEnv = (): AIProvider => {
+    const kind = process.env.AI_PROVIDER as AIProviderKind | undefined;
+    if (kind === 'mock') {
+        return createMockProvider(Number(process.env.MOCK_LATENCY_MS) || 0);
+    }
+    return createBackendProvider(process.env.BACKEND_URL || DEFAULT_BACKEND_BASE_URL);
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Returns the provider selected by VITE_AI_PROVIDER / VITE_BACKEND_URL, unless one was set explicitly.
+ */
+export const getAIProvider = (): AIProvider => {
+    if (!activeProvider) {
+        activeProvider = createProviderFromEnv();
+    }
+    return activeProvider;
+};
+
+/**
+ * Replaces the active provider, e.g. to force the mock in tests. Pass null to go back to the env default.
+ */
+export const setAIProvider = (provider: AIProvider | null): void => {
+    activeProvider = provider;
+};
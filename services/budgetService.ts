@@ -7,7 +7,9 @@
 // This tracks usage in LocalStorage to prevent the application from making
 // API calls once the defined monthly threshold is reached.
 
-export type OperationType = 'EDIT' | 'FILTER' | 'ADJUSTMENT' | 'STYLE_TRANSFER' | 'MASK_COMPOSITION';
+import { AIServiceError } from './aiErrors';
+
+export type OperationType = 'EDIT' | 'FILTER' | 'ADJUSTMENT' | 'STYLE_TRANSFER' | 'MASK_COMPOSITION' | 'SEGMENTATION';
 
 const BUDGET_CONFIG = {
     LIMIT_INR: 200,
@@ -24,7 +26,8 @@ const COST_TABLE_USD: Record<OperationType, number> = {
     FILTER: 0.003,          // ~1 image input + prompt, 1 image output
     ADJUSTMENT: 0.003,      // ~1 image input + prompt, 1 image output
     STYLE_TRANSFER: 0.006,  // ~2 images input, 1 image output
-    MASK_COMPOSITION: 0.008 // ~3 images input, 1 image output
+    MASK_COMPOSITION: 0.008, // ~3 images input, 1 image output
+    SEGMENTATION: 0.003     // ~1 image input + prompt, 1 mask output
 };
 
 interface BudgetState {
@@ -65,7 +68,7 @@ const saveBudgetState = (state: BudgetState) => {
 
 /**
  * Checks if the budget allows for the requested operation.
- * Throws an error if the limit has been exceeded.
+ * Throws a 'quota' AIServiceError if the limit has been exceeded.
  */
 export const checkBudgetAvailability = (operation: OperationType): void => {
     const state = getBudgetState();
@@ -75,11 +78,13 @@ export const checkBudgetAvailability = (operation: OperationType): void => {
     const projectedSpendINR = (state.totalSpendUSD + costUSD) * BUDGET_CONFIG.EXCHANGE_RATE;
 
     if (currentSpendINR >= BUDGET_CONFIG.LIMIT_INR) {
-        throw new Error(
+        throw new AIServiceError(
+            'quota',
             `⛔ Monthly Budget Exceeded ⛔\n` +
             `You have reached your safety limit of ₹${BUDGET_CONFIG.LIMIT_INR}.\n` +
             `Current usage: ₹${currentSpendINR.toFixed(2)}.\n` +
-            `To protect your production costs, no further API calls will be made this month.`
+            `To protect your production costs, no further API calls will be made this month.`,
+            { hint: 'The budget resets automatically at the start of next month.' }
         );
     }
 };
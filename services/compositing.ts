@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Client-side compositing of AI results. The model returns a whole frame that
+// may differ in size from the source and drift outside the requested area, so
+// every result is resampled to the source dimensions and, for local edits,
+// blended back into the source only through the edit mask. The same blend
+// restores earlier history steps for the history brush without any API call.
+
+import { decodeImage, encodeImage } from './imageWorkerClient';
+
+export const decodeToImageData = (file: Blob, width?: number, height?: number): Promise<ImageData> =>
+    decodeImage(file, { width, height });
+
+/**
+ * Encodes as a PNG file. The pixels are handed to the image worker, so `image`
+ * is empty afterwards.
+ */
+export const encodePng = async (image: ImageData, name: string): Promise<File> =>
+    new File([await encodeImage(image, { type: 'image/png' })], name, { type: 'image/png' });
+
+/**
+ * Separable box blur of a single-channel weight map, run three times to
+ * approximate a Gaussian.
+ */
+export const blurWeights = (weights: Float32Array, width: number, height: number, radius: number): Float32Array => {
+    let src: Float32Array = weights;
+    let dst: Float32Array = new Float32Array(weights.length);
+    const pass = (length: number, lines: number, stride: number, step: number) => {
+        const span = radius * 2 + 1;
+        for (let line = 0; line < lines; line++) {
+            const start = line * stride;
+            const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * step];
+            let sum = 0;
+            for (let i = -radius; i <= radius; i++) sum += at(i);
+            for (let i = 0; i < length; i++) {
+                dst[start + i * step] = sum / span;
+                sum += at(i + radius + 1) - at(i - radius);
+            }
+        }
+        [src, dst] = [dst, src];
+    };
+    for (let i = 0; i < 3; i++) {
+        pass(width, height, width, 1);
+        pass(height, width, 1, width);
+    }
+    return src;
+};
+
+/**
+ * Turns the mask's red channel into blend weights whose edge fades out over
+ * `radius` pixels *inside* the selection. Anything the mask leaves black keeps
+ * a weight of exactly 0.
+ */
+export const featherMask = (mask: ImageData, radius: number): Float32Array => {
+    const { width, height, data } = mask;
+    const weights = new Float32Array(width * height);
+    for (let i = 0; i < weights.length; i++) weights[i] = data[i * 4] / 255;
+    if (radius < 1) return weights;
+
+    const blurred = blurWeights(weights, width, height, Math.max(1, Math.round(radius / 2)));
+    for (let i = 0; i < weights.length; i++) {
+        // A hard edge blurs to 0.5 at the boundary, so remap 0.5..1 onto 0..1
+        weights[i] = Math.min(weights[i], Math.max(0, Math.min(1, blurred[i] * 2 - 1)));
+    }
+    return weights;
+};
+
+/**
+ * The feathered edge used for edit masks unless a step asks for another width.
+ */
+export const defaultFeatherRadius = (width: number, height: number): number => Math.max(width, height) * 0.004;
+
+export interface CompositeOptions {
+    /** Width of the feathered edge in source pixels. Defaults to 0.4% of the longer side. */
+    featherRadius?: number;
+}
+
+/**
+ * Blends `edited` into `original`. The edited image is resampled to the
+ * original's dimensions; with a mask it is blended in only where the mask is
+ * white (black keeps the original bit for bit), with a feathered edge.
+ * Without a mask the whole frame is the edit area. Used both for AI results
+ * and for the history brush, which restores pixels from an earlier step.
+ */
+export const compositeThroughMask = async (
+    original: Blob,
+    edited: Blob,
+    mask: Blob | null,
+    options: CompositeOptions = {},
+): Promise<File> => {
+    const base = await decodeToImageData(original);
+    const { width, height } = base;
+    const overlay = await decodeToImageData(edited, width, height);
+    if (!mask) return encodePng(overlay, `composited-${Date.now()}.png`);
+
+    const radius = options.featherRadius ?? defaultFeatherRadius(width, height);
+    const weights = featherMask(await decodeToImageData(mask, width, height), radius);
+
+    const out = base.data;
+    const src = overlay.data;
+    for (let p = 0; p < weights.length; p++) {
+        const alpha = weights[p];
+        if (alpha === 0) continue;
+        const i = p * 4;
+        out[i] += (src[i] - out[i]) * alpha;
+        out[i + 1] += (src[i + 1] - out[i + 1]) * alpha;
+        out[i + 2] += (src[i + 2] - out[i + 2]) * alpha;
+        out[i + 3] += (src[i + 3] - out[i + 3]) * alpha;
+    }
+
+    return encodePng(base, `composited-${Date.now()}.png`);
+};
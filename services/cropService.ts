@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Geometry and rendering for the Crop tab. The source image is first
+// flipped, then rotated by whole quarter turns plus a free straighten angle,
+// onto a canvas sized to the rotated bounding box ("transformed space").
+// Crop rectangles are expressed in natural pixels of that transformed space.
+// Crop steps store these parameters rather than relying on the rendered
+// pixels, so a crop can be re-adjusted later by rendering it again from the
+// parent step's image instead of cropping an already-cropped image.
+
+import { drawTransformed, getTransformedSize } from './imageCodec';
+import { cropImage } from './imageWorkerClient';
+
+// Drawn in the image worker as well, so they live with the rest of its pixel code
+export { drawTransformed, getTransformedSize };
+
+export interface CropTransform {
+    /** Free straighten angle in degrees, clockwise. */
+    rotation: number;
+    /** Number of clockwise 90° turns, 0–3. */
+    quarterTurns: number;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+}
+
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+/**
+ * What a crop history step records, so it can be re-rendered from its parent later.
+ */
+export type CropParams = CropRect & CropTransform & { aspect?: number };
+
+export const readCropParams = (params: Record<string, unknown> | undefined): CropParams | null => {
+    if (!params) return null;
+    const { x, y, width, height } = params;
+    if (typeof x !== 'number' || typeof y !== 'number' || typeof width !== 'number' || typeof height !== 'number') return null;
+    return {
+        x,
+        y,
+        width,
+        height,
+        rotation: typeof params.rotation === 'number' ? params.rotation : 0,
+        quarterTurns: typeof params.quarterTurns === 'number' ? params.quarterTurns : 0,
+        flipHorizontal: params.flipHorizontal === true,
+        flipVertical: params.flipVertical === true,
+        aspect: typeof params.aspect === 'number' ? params.aspect : undefined,
+    };
+};
+
+export const identityCropTransform: CropTransform = {
+    rotation: 0,
+    quarterTurns: 0,
+    flipHorizontal: false,
+    flipVertical: false,
+};
+
+export const isIdentityCropTransform = (transform: CropTransform): boolean =>
+    transform.rotation === 0 && transform.quarterTurns % 4 === 0 && !transform.flipHorizontal && !transform.flipVertical;
+
+/**
+ * The source size after whole quarter turns, before straightening.
+ */
+export const getTurnedSize = (source: ImageSize, transform: CropTransform): ImageSize =>
+    transform.quarterTurns % 2 === 0 ? source : { width: source.height, height: source.width };
+
+/**
+ * The largest axis-aligned rectangle that contains no empty corners after
+ * straightening, centred in transformed space.
+ */
+export const getInscribedRect = (source: ImageSize, transform: CropTransform): CropRect => {
+    const turned = getTurnedSize(source, transform);
+    const bounds = getTransformedSize(source, transform);
+    const angle = Math.abs(transform.rotation) * Math.PI / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    const longSide = Math.max(turned.width, turned.height);
+    const shortSide = Math.min(turned.width, turned.height);
+
+    let width: number;
+    let height: number;
+    if (shortSide <= 2 * sin * cos * longSide || Math.abs(sin - cos) < 1e-10) {
+        // Half-constrained: two opposite corners touch the longer sides
+        const half = shortSide / 2;
+        [width, height] = turned.width >= turned.height ? [half / sin, half / cos] : [half / cos, half / sin];
+    } else {
+        const cos2 = cos * cos - sin * sin;
+        width = (turned.width * cos - turned.height * sin) / cos2;
+        height = (turned.height * cos - turned.width * sin) / cos2;
+    }
+
+    width = Math.min(bounds.width, Math.floor(width));
+    height = Math.min(bounds.height, Math.floor(height));
+    return {
+        x: Math.round((bounds.width - width) / 2),
+        y: Math.round((bounds.height - height) / 2),
+        width,
+        height,
+    };
+};
+
+/**
+ * The largest rectangle of the given aspect ratio that fits inside `rect`, centred on it.
+ */
+export const fitAspect = (rect: CropRect, aspect: number): CropRect => {
+    const width = Math.min(rect.width, rect.height * aspect);
+    const height = width / aspect;
+    return {
+        x: rect.x + (rect.width - width) / 2,
+        y: rect.y + (rect.height - height) / 2,
+        width,
+        height,
+    };
+};
+
+/**
+ * Renders the cropped region of the transformed image at natural resolution,
+ * one output pixel per transformed-space pixel.
+ */
+export const renderCroppedImage = async (file: File, transform: CropTransform, rect: CropRect): Promise<File> => {
+    const blob = await cropImage(file, transform, rect);
+    return new File([blob], `cropped-${Date.now()}.png`, { type: 'image/png' });
+};
@@ -0,0 +1,393 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal EXIF (TIFF) and XMP handling for the fields the editor carries
+// through history: camera, capture settings, authorship and GPS. Everything
+// else, such as maker notes and embedded thumbnails, is deliberately dropped
+// because it describes the original file rather than the edited image.
+
+/** A location in decimal degrees; south and west are negative. */
+export interface GpsPosition {
+    latitude: number;
+    longitude: number;
+    /** Metres; negative below sea level. */
+    altitude?: number;
+}
+
+export interface ImageMetadata {
+    make?: string;
+    model?: string;
+    lensModel?: string;
+    /** As written by the camera: "YYYY:MM:DD HH:MM:SS". */
+    dateTimeOriginal?: string;
+    /** Seconds. */
+    exposureTime?: number;
+    fNumber?: number;
+    iso?: number;
+    /** Millimetres. */
+    focalLength?: number;
+    artist?: string;
+    copyright?: string;
+    description?: string;
+    gps?: GpsPosition;
+}
+
+export interface ParsedExif {
+    metadata: ImageMetadata;
+    /** EXIF orientation, 1–8; 1 when absent. */
+    orientation: number;
+}
+
+const TAGS = {
+    IMAGE_DESCRIPTION: 0x010e,
+    MAKE: 0x010f,
+    MODEL: 0x0110,
+    ORIENTATION: 0x0112,
+    SOFTWARE: 0x0131,
+    ARTIST: 0x013b,
+    COPYRIGHT: 0x8298,
+    EXIF_IFD: 0x8769,
+    GPS_IFD: 0x8825,
+    EXPOSURE_TIME: 0x829a,
+    F_NUMBER: 0x829d,
+    ISO: 0x8827,
+    EXIF_VERSION: 0x9000,
+    DATE_TIME_ORIGINAL: 0x9003,
+    FOCAL_LENGTH: 0x920a,
+    LENS_MODEL: 0xa434,
+    GPS_VERSION: 0x0000,
+    GPS_LATITUDE_REF: 0x0001,
+    GPS_LATITUDE: 0x0002,
+    GPS_LONGITUDE_REF: 0x0003,
+    GPS_LONGITUDE: 0x0004,
+    GPS_ALTITUDE_REF: 0x0005,
+    GPS_ALTITUDE: 0x0006,
+};
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_UNDEFINED = 7;
+const TYPE_SLONG = 9;
+const TYPE_SRATIONAL = 10;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// --- Reading ---
+
+type IfdValue = string | number[];
+
+const readIfd = (view: DataView, offset: number, littleEndian: boolean): Map<number, IfdValue> => {
+    const entries = new Map<number, IfdValue>();
+    if (offset + 2 > view.byteLength) return entries;
+    const count = view.getUint16(offset, littleEndian);
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const valueCount = view.getUint32(entry + 4, littleEndian);
+        const size = TYPE_SIZES[type];
+        if (!size) continue;
+        const byteLength = size * valueCount;
+        const valueOffset = byteLength <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+        if (valueOffset + byteLength > view.byteLength) continue;
+
+        if (type === TYPE_ASCII) {
+            const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, byteLength);
+            const end = bytes.indexOf(0);
+            entries.set(tag, new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes).trim());
+            continue;
+        }
+        const values: number[] = [];
+        for (let v = 0; v < valueCount; v++) {
+            const at = valueOffset + v * size;
+            switch (type) {
+                case TYPE_SHORT: values.push(view.getUint16(at, littleEndian)); break;
+                case TYPE_LONG: values.push(view.getUint32(at, littleEndian)); break;
+                case TYPE_SLONG: values.push(view.getInt32(at, littleEndian)); break;
+                case TYPE_RATIONAL: {
+                    const denominator = view.getUint32(at + 4, littleEndian);
+                    values.push(denominator ? view.getUint32(at, littleEndian) / denominator : 0);
+                    break;
+                }
+                case TYPE_SRATIONAL: {
+                    const denominator = view.getInt32(at + 4, littleEndian);
+                    values.push(denominator ? view.getInt32(at, littleEndian) / denominator : 0);
+                    break;
+                }
+                default: values.push(view.getUint8(at));
+            }
+        }
+        entries.set(tag, values);
+    }
+    return entries;
+};
+
+const text = (entries: Map<number, IfdValue>, tag: number) => {
+    const value = entries.get(tag);
+    return typeof value === 'string' && value ? value : undefined;
+};
+
+const numeric = (entries: Map<number, IfdValue>, tag: number) => {
+    const value = entries.get(tag);
+    return Array.isArray(value) && value.length > 0 ? value[0] : undefined;
+};
+
+const degrees = (entries: Map<number, IfdValue>, tag: number, refTag: number, negativeRef: string) => {
+    const value = entries.get(tag);
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const [d, m, s] = value;
+    const sign = text(entries, refTag)?.toUpperCase() === negativeRef ? -1 : 1;
+    return sign * (d + m / 60 + s / 3600);
+};
+
+/**
+ * Parses a TIFF-structured EXIF block (without the "Exif\0\0" prefix).
+ */
+export const parseExif = (tiff: Uint8Array): ParsedExif | null => {
+    if (tiff.byteLength < 8) return null;
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const byteOrder = view.getUint16(0);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+    const littleEndian = byteOrder === 0x4949;
+    if (view.getUint16(2, littleEndian) !== 42) return null;
+
+    const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+    const exifOffset = numeric(ifd0, TAGS.EXIF_IFD);
+    const gpsOffset = numeric(ifd0, TAGS.GPS_IFD);
+    const exif = exifOffset ? readIfd(view, exifOffset, littleEndian) : new Map<number, IfdValue>();
+    const gpsIfd = gpsOffset ? readIfd(view, gpsOffset, littleEndian) : new Map<number, IfdValue>();
+
+    const latitude = degrees(gpsIfd, TAGS.GPS_LATITUDE, TAGS.GPS_LATITUDE_REF, 'S');
+    const longitude = degrees(gpsIfd, TAGS.GPS_LONGITUDE, TAGS.GPS_LONGITUDE_REF, 'W');
+    const altitude = numeric(gpsIfd, TAGS.GPS_ALTITUDE);
+    const gps = latitude !== undefined && longitude !== undefined ? {
+        latitude,
+        longitude,
+        altitude: altitude === undefined ? undefined : altitude * (numeric(gpsIfd, TAGS.GPS_ALTITUDE_REF) === 1 ? -1 : 1),
+    } : undefined;
+
+    return {
+        orientation: numeric(ifd0, TAGS.ORIENTATION) ?? 1,
+        metadata: {
+            make: text(ifd0, TAGS.MAKE),
+            model: text(ifd0, TAGS.MODEL),
+            lensModel: text(exif, TAGS.LENS_MODEL),
+            dateTimeOriginal: text(exif, TAGS.DATE_TIME_ORIGINAL),
+            exposureTime: numeric(exif, TAGS.EXPOSURE_TIME),
+            fNumber: numeric(exif, TAGS.F_NUMBER),
+            iso: numeric(exif, TAGS.ISO),
+            focalLength: numeric(exif, TAGS.FOCAL_LENGTH),
+            artist: text(ifd0, TAGS.ARTIST),
+            copyright: text(ifd0, TAGS.COPYRIGHT),
+            description: text(ifd0, TAGS.IMAGE_DESCRIPTION),
+            gps,
+        },
+    };
+};
+
+// --- Writing ---
+
+interface IfdEntry {
+    tag: number;
+    type: number;
+    /** Strings for ASCII; otherwise numbers, with each rational as a numerator, denominator pair. */
+    value: string | number[];
+}
+
+const toRational = (value: number): [number, number] => {
+    // Short exposures read best as 1/n
+    if (value > 0 && value < 1 && Number.isInteger(Math.round(1 / value * 1000) / 1000)) {
+        return [1, Math.round(1 / value)];
+    }
+    return [Math.round(value * 10000), 10000];
+};
+
+const toDms = (decimal: number): number[] => {
+    const abs = Math.abs(decimal);
+    const d = Math.floor(abs);
+    const m = Math.floor((abs - d) * 60);
+    const s = (abs - d - m / 60) * 3600;
+    return [d, 1, m, 1, Math.round(s * 1000), 1000];
+};
+
+const entryBytes = (entry: IfdEntry): Uint8Array => {
+    if (typeof entry.value === 'string') return new TextEncoder().encode(`${entry.value}\0`);
+    const size = TYPE_SIZES[entry.type];
+    const bytes = new Uint8Array(entry.value.length * (entry.type === TYPE_RATIONAL ? 4 : size));
+    const view = new DataView(bytes.buffer);
+    entry.value.forEach((value, i) => {
+        switch (entry.type) {
+            case TYPE_SHORT: view.setUint16(i * 2, value, true); break;
+            case TYPE_LONG:
+            case TYPE_RATIONAL: view.setUint32(i * 4, value, true); break;
+            default: view.setUint8(i, value);
+        }
+    });
+    return bytes;
+};
+
+const valueCount = (entry: IfdEntry, bytes: Uint8Array) => entry.type === TYPE_RATIONAL ? bytes.length / 8 : bytes.length / TYPE_SIZES[entry.type];
+
+const ifdSize = (entries: IfdEntry[]) => {
+    const data = entries.reduce((sum, entry) => {
+        const length = entryBytes(entry).length;
+        return sum + (length > 4 ? length + (length % 2) : 0);
+    }, 0);
+    return 2 + entries.length * 12 + 4 + data;
+};
+
+const writeIfd = (out: Uint8Array, view: DataView, offset: number, entries: IfdEntry[]) => {
+    const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+    view.setUint16(offset, sorted.length, true);
+    let dataOffset = offset + 2 + sorted.length * 12 + 4;
+    sorted.forEach((entry, i) => {
+        const at = offset + 2 + i * 12;
+        const bytes = entryBytes(entry);
+        view.setUint16(at, entry.tag, true);
+        view.setUint16(at + 2, entry.type, true);
+        view.setUint32(at + 4, valueCount(entry, bytes), true);
+        if (bytes.length <= 4) {
+            out.set(bytes, at + 8);
+        } else {
+            view.setUint32(at + 8, dataOffset, true);
+            out.set(bytes, dataOffset);
+            dataOffset += bytes.length + (bytes.length % 2);
+        }
+    });
+    view.setUint32(offset + 2 + sorted.length * 12, 0, true);
+};
+
+const ascii = (tag: number, value: string | undefined): IfdEntry[] => value ? [{ tag, type: TYPE_ASCII, value }] : [];
+const rational = (tag: number, value: number | undefined): IfdEntry[] => value !== undefined ? [{ tag, type: TYPE_RATIONAL, value: toRational(value) }] : [];
+
+/**
+ * Encodes the metadata as a little-endian TIFF block (without the "Exif\0\0"
+ * prefix). The orientation is not written: pixels are always stored upright.
+ */
+export const encodeExif = (metadata: ImageMetadata, software?: string): Uint8Array => {
+    const ifd0: IfdEntry[] = [
+        ...ascii(TAGS.IMAGE_DESCRIPTION, metadata.description),
+        ...ascii(TAGS.MAKE, metadata.make),
+        ...ascii(TAGS.MODEL, metadata.model),
+        ...ascii(TAGS.SOFTWARE, software),
+        ...ascii(TAGS.ARTIST, metadata.artist),
+        ...ascii(TAGS.COPYRIGHT, metadata.copyright),
+    ];
+    const exif: IfdEntry[] = [
+        { tag: TAGS.EXIF_VERSION, type: TYPE_UNDEFINED, value: Array.from(new TextEncoder().encode('0232')) },
+        ...rational(TAGS.EXPOSURE_TIME, metadata.exposureTime),
+        ...rational(TAGS.F_NUMBER, metadata.fNumber),
+        ...(metadata.iso !== undefined ? [{ tag: TAGS.ISO, type: TYPE_SHORT, value: [Math.min(65535, Math.round(metadata.iso))] }] : []),
+        ...ascii(TAGS.DATE_TIME_ORIGINAL, metadata.dateTimeOriginal),
+        ...rational(TAGS.FOCAL_LENGTH, metadata.focalLength),
+        ...ascii(TAGS.LENS_MODEL, metadata.lensModel),
+    ];
+    const { gps } = metadata;
+    const gpsIfd: IfdEntry[] = gps ? [
+        { tag: TAGS.GPS_VERSION, type: TYPE_BYTE, value: [2, 3, 0, 0] },
+        { tag: TAGS.GPS_LATITUDE_REF, type: TYPE_ASCII, value: gps.latitude < 0 ? 'S' : 'N' },
+        { tag: TAGS.GPS_LATITUDE, type: TYPE_RATIONAL, value: toDms(gps.latitude) },
+        { tag: TAGS.GPS_LONGITUDE_REF, type: TYPE_ASCII, value: gps.longitude < 0 ? 'W' : 'E' },
+        { tag: TAGS.GPS_LONGITUDE, type: TYPE_RATIONAL, value: toDms(gps.longitude) },
+        ...(gps.altitude !== undefined ? [
+            { tag: TAGS.GPS_ALTITUDE_REF, type: TYPE_BYTE, value: [gps.altitude < 0 ? 1 : 0] },
+            { tag: TAGS.GPS_ALTITUDE, type: TYPE_RATIONAL, value: toRational(Math.abs(gps.altitude)) },
+        ] : []),
+    ] : [];
+
+    // Offsets of the sub-IFDs depend on the size of IFD0, which includes the pointers to them
+    const pointers: IfdEntry[] = [
+        { tag: TAGS.EXIF_IFD, type: TYPE_LONG, value: [0] },
+        ...(gpsIfd.length > 0 ? [{ tag: TAGS.GPS_IFD, type: TYPE_LONG, value: [0] }] : []),
+    ];
+    const exifOffset = 8 + ifdSize([...ifd0, ...pointers]);
+    const gpsOffset = exifOffset + ifdSize(exif);
+    pointers[0].value = [exifOffset];
+    if (pointers[1]) pointers[1].value = [gpsOffset];
+
+    const out = new Uint8Array(gpsOffset + (gpsIfd.length > 0 ? ifdSize(gpsIfd) : 0));
+    const view = new DataView(out.buffer);
+    view.setUint16(0, 0x4949);
+    view.setUint16(2, 42, true);
+    view.setUint32(4, 8, true);
+    writeIfd(out, view, 8, [...ifd0, ...pointers]);
+    writeIfd(out, view, exifOffset, exif);
+    if (gpsIfd.length > 0) writeIfd(out, view, gpsOffset, gpsIfd);
+    return out;
+};
+
+// --- XMP ---
+
+const NS = {
+    rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+    dc: 'http://purl.org/dc/elements/1.1/',
+    xmp: 'http://ns.adobe.com/xap/1.0/',
+    iptcExt: 'http://iptc.org/std/Iptc4xmpExt/2008-02-29/',
+};
+
+/** IPTC digital source type for an image edited with generative AI. */
+export const AI_EDITED_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/compositeWithTrainedAlgorithmicMedia';
+
+/**
+ * Reads the authorship fields from an XMP packet, for files that keep them only there.
+ */
+export const parseXmp = (packet: string): Pick<ImageMetadata, 'artist' | 'copyright' | 'description'> => {
+    const doc = new DOMParser().parseFromString(packet, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) return {};
+    const first = (name: string) => {
+        const element = doc.getElementsByTagNameNS(NS.dc, name)[0];
+        const item = element?.getElementsByTagNameNS(NS.rdf, 'li')[0] ?? element;
+        return item?.textContent?.trim() || undefined;
+    };
+    return { artist: first('creator'), copyright: first('rights'), description: first('description') };
+};
+
+export const escapeXml = (value: string): string => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const altText = (name: string, value: string) =>
+    `<dc:${name}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></dc:${name}>`;
+
+/**
+ * Builds an XMP packet with the authorship fields and, for AI edits, the
+ * IPTC digital source type. `extraNamespaces` and `extraProperties` let
+ * callers add their own elements to the same description.
+ */
+export const buildXmp = (
+    metadata: ImageMetadata,
+    options: { software?: string, aiEdited: boolean, extraNamespaces?: Record<string, string>, extraProperties?: string[] },
+): string => {
+    const properties = [
+        metadata.artist ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.artist)}</rdf:li></rdf:Seq></dc:creator>` : '',
+        metadata.copyright ? altText('rights', metadata.copyright) : '',
+        metadata.description ? altText('description', metadata.description) : '',
+        options.software ? `<xmp:CreatorTool>${escapeXml(options.software)}</xmp:CreatorTool>` : '',
+        options.aiEdited ? `<Iptc4xmpExt:DigitalSourceType>${AI_EDITED_SOURCE_TYPE}</Iptc4xmpExt:DigitalSourceType>` : '',
+        ...(options.extraProperties ?? []),
+    ].filter(Boolean);
+    const namespaces = Object.entries({
+        dc: NS.dc,
+        xmp: NS.xmp,
+        Iptc4xmpExt: NS.iptcExt,
+        ...options.extraNamespaces,
+    }).map(([prefix, uri]) => `xmlns:${prefix}="${uri}"`).join(' ');
+
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="${NS.rdf}">
+<rdf:Description rdf:about="" ${namespaces}>
+${properties.join('\n')}
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Encoding for the export dialog. The flattened edit is decoded, optionally
+// colour-managed into sRGB, resized and re-encoded in the chosen format.
+// Without the conversion the pixel values are kept and the upload's own
+// colour profile is written into the output instead.
+// Browsers that cannot encode a format silently fall back to PNG, so support
+// is probed up front and unsupported formats are not offered. Metadata is
+// spliced into the encoded file afterwards, for formats that can carry it.
+
+import { type ImageSize } from './cropService';
+import { type DecodeOptions, type EncodeOptions, decodeImage, encodeImage, resampleImage } from './imageWorkerClient';
+import { type ImageMetadata, embedMetadata, readColorProfile, withIccProfile } from './metadataService';
+import { type ProvenanceManifest, provenanceToXmp } from './provenanceService';
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string, mimeType: string, extension: string, lossy: boolean, metadata: boolean }> = {
+    jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, metadata: true },
+    png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, metadata: true },
+    webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, metadata: true },
+    avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, metadata: false },
+};
+
+export type ExportResize =
+    | { mode: 'original' }
+    | { mode: 'max-dimension', maxDimension: number }
+    | { mode: 'percent', percent: number };
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** 1–100; ignored by lossless formats. */
+    quality: number;
+    resize: ExportResize;
+    /** Colour-manage into sRGB; otherwise keep the pixel values and the upload's colour profile. */
+    convertToSrgb: boolean;
+    /** Output name without extension; see FILENAME_TOKENS. */
+    filenameTemplate: string;
+    /** Write the camera and authorship metadata carried from the upload. */
+    keepMetadata: boolean;
+    stripGps: boolean;
+    /** Mark the file as edited with AI. */
+    addProvenanceTag: boolean;
+    /** Embed the edit history (operations, prompts, times) in the file's XMP. */
+    embedEditHistory: boolean;
+    /** Also save the edit history as a JSON file next to the image. */
+    saveSidecar: boolean;
+}
+
+export const defaultExportOptions: ExportOptions = {
+    format: 'jpeg',
+    quality: 90,
+    resize: { mode: 'original' },
+    convertToSrgb: true,
+    filenameTemplate: 'vixel-ai-edited-{name}',
+    keepMetadata: true,
+    stripGps: true,
+    addProvenanceTag: true,
+    embedEditHistory: true,
+    saveSidecar: false,
+};
+
+export const FILENAME_TOKENS: Record<string, string> = {
+    '{name}': 'Original file name',
+    '{date}': 'Export date (YYYY-MM-DD)',
+    '{time}': 'Export time (HH-MM-SS)',
+    '{width}': 'Output width',
+    '{height}': 'Output height',
+    '{format}': 'Format extension',
+};
+
+// Estimates encode a crop of at most this many pixels and scale the result up
+const ESTIMATE_SAMPLE_PIXELS = 512 * 512;
+
+const supportCache = new Map<ExportFormat, boolean>();
+
+/**
+ * Whether this browser can encode the format, rather than falling back to PNG.
+ */
+export const isExportFormatSupported = (format: ExportFormat): boolean => {
+    const cached = supportCache.get(format);
+    if (cached !== undefined) return cached;
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    const { mimeType } = EXPORT_FORMATS[format];
+    const supported = canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+    supportCache.set(format, supported);
+    return supported;
+};
+
+export const getExportSize = (source: ImageSize, resize: ExportResize): ImageSize => {
+    let scale = 1;
+    if (resize.mode === 'max-dimension') {
+        scale = Math.min(1, resize.maxDimension / Math.max(source.width, source.height));
+    } else if (resize.mode === 'percent') {
+        scale = resize.percent / 100;
+    }
+    return {
+        width: Math.max(1, Math.round(source.width * scale)),
+        height: Math.max(1, Math.round(source.height * scale)),
+    };
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fills in the template tokens and adds the format's extension. Characters that
+ * are not allowed in file names are replaced.
+ */
+export const formatExportFilename = (
+    template: string,
+    values: { name: string, size: ImageSize, format: ExportFormat, date?: Date },
+): string => {
+    const date = values.date ?? new Date();
+    const { extension } = EXPORT_FORMATS[values.format];
+    const replacements: Record<string, string> = {
+        '{name}': values.name.replace(/\.[^.]+$/, ''),
+        '{date}': `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        '{time}': `${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`,
+        '{width}': String(values.size.width),
+        '{height}': String(values.size.height),
+        '{format}': extension,
+    };
+    const base = Object.entries(replacements)
+        .reduce((name, [token, value]) => name.split(token).join(value), template)
+        .replace(/[\\/:*?"<>|]+/g, '-')
+        .trim();
+    return `${base || 'image'}.${extension}`;
+};
+
+const toDecodeOptions = (options: ExportOptions): DecodeOptions => ({
+    scale: options.resize.mode === 'percent' ? options.resize.percent / 100 : undefined,
+    maxDimension: options.resize.mode === 'max-dimension' ? options.resize.maxDimension : undefined,
+    convertToSrgb: options.convertToSrgb,
+    // JPEG has no alpha; transparent areas would otherwise turn black
+    background: options.format === 'jpeg' ? 'white' : undefined,
+});
+
+const toEncodeOptions = (options: ExportOptions): EncodeOptions => {
+    const { mimeType, lossy } = EXPORT_FORMATS[options.format];
+    return { type: mimeType, quality: lossy ? options.quality / 100 : undefined };
+};
+
+/**
+ * Encodes the image with the given export options, then writes the colour
+ * profile of `embedded.profileSource` (when not converting to sRGB), the
+ * metadata and the edit history into formats that can hold them.
+ */
+export const renderExport = async (
+    image: Blob,
+    options: ExportOptions,
+    embedded: { metadata: ImageMetadata | null, provenance: ProvenanceManifest, profileSource: Blob },
+): Promise<Blob> => {
+    let encoded = await resampleImage(image, { ...toDecodeOptions(options), ...toEncodeOptions(options) });
+    if (!options.convertToSrgb) {
+        const profile = await readColorProfile(embedded.profileSource);
+        if (profile.length > 0) encoded = await withIccProfile(encoded, profile);
+    }
+    if (!EXPORT_FORMATS[options.format].metadata) return encoded;
+    return embedMetadata(encoded, {
+        metadata: options.keepMetadata ? embedded.metadata : null,
+        stripGps: options.stripGps,
+        aiEdited: options.addProvenanceTag,
+        xmpExtras: options.embedEditHistory ? provenanceToXmp(embedded.provenance) : undefined,
+    });
+};
+
+/**
+ * Approximate encoded size in bytes, from a central crop of the resized image
+ * so it stays quick for large exports.
+ */
+export const estimateExportSize = async (image: Blob, options: ExportOptions): Promise<number> => {
+    const resized = await decodeImage(image, toDecodeOptions(options));
+    const { width, height } = resized;
+    const pixels = width * height;
+    if (pixels <= ESTIMATE_SAMPLE_PIXELS) {
+        return (await encodeImage(resized, toEncodeOptions(options))).size;
+    }
+
+    const sampleScale = Math.sqrt(ESTIMATE_SAMPLE_PIXELS / pixels);
+    const sampleWidth = Math.max(1, Math.round(width * sampleScale));
+    const sampleHeight = Math.max(1, Math.round(height * sampleScale));
+    const x = Math.round((width - sampleWidth) / 2);
+    const y = Math.round((height - sampleHeight) / 2);
+    const sample = new ImageData(sampleWidth, sampleHeight);
+    for (let row = 0; row < sampleHeight; row++) {
+        const from = ((y + row) * width + x) * 4;
+        sample.data.set(resized.data.subarray(from, from + sampleWidth * 4), row * sampleWidth * 4);
+    }
+    const sampleBytes = (await encodeImage(sample, toEncodeOptions(options))).size;
+    return Math.round(sampleBytes * pixels / (sampleWidth * sampleHeight));
+};
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
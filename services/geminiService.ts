@@ -5,48 +5,47 @@
 */
 
 import { checkBudgetAvailability, trackUsage } from "./budgetService";
+import { getAIProvider, isAbortError, type AIProvider, type AIProviderImages, type SegmentationTarget } from "./aiProvider";
+import { toAIServiceError } from "./aiErrors";
 
-const BACKEND_URL = "http://localhost:8080/api/process";
+export { isAbortError, type SegmentationTarget } from "./aiProvider";
+export { AIServiceError, toAIServiceError } from "./aiErrors";
 
 /**
- * Generic fetcher to talk to our Go backend.
+ * Runs a request against the active AI provider (Go backend or local mock).
+ * Re-checks the signal once the result is in, so a request cancelled while the
+ * response was already on its way is still treated as cancelled (and not charged).
+ * Failures other than cancellation are rethrown as AIServiceError.
  */
-const callBackend = async (formData: FormData): Promise<string> => {
-    const response = await fetch(BACKEND_URL, {
-        method: "POST",
-        body: formData,
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(errorText || "Backend processing failed");
-    }
-
-    const data = await response.json();
-    if (!data.imageUrl) {
-        throw new Error("No image was returned from the server");
+const runOnProvider = async (request: (provider: AIProvider) => Promise<Blob>, signal?: AbortSignal): Promise<Blob> => {
+    signal?.throwIfAborted();
+    try {
+        const result = await request(getAIProvider());
+        signal?.throwIfAborted();
+        return result;
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        throw toAIServiceError(err);
     }
-
-    return data.imageUrl;
 };
 
+const callProvider = (prompt: string, images: AIProviderImages, signal?: AbortSignal): Promise<Blob> =>
+    runOnProvider(provider => provider.process(prompt, images, signal), signal);
+
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number }
-): Promise<string> => {
+    mask: File,
+    signal?: AbortSignal,
+): Promise<Blob> => {
     checkBudgetAvailability('EDIT');
     
-    const formData = new FormData();
     const prompt = `You are an expert photo editor AI. Perform a localized edit on the image.
 User Request: "${userPrompt}"
-Edit Location: (x: ${hotspot.x}, y: ${hotspot.y}).
+Edit Area: the second image is a mask. White marks the area to edit; black must stay unchanged.
 Guidelines: Keep everything outside the edit area identical. Output ONLY the edited image.`;
 
-    formData.append("prompt", prompt);
-    formData.append("image", originalImage);
-
-    const result = await callBackend(formData);
+    const result = await callProvider(prompt, { image: originalImage, mask }, signal);
     trackUsage('EDIT');
     return result;
 };
@@ -55,16 +54,13 @@ export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
     isAdaptive: boolean = false,
-): Promise<string> => {
+    signal?: AbortSignal,
+): Promise<Blob> => {
     checkBudgetAvailability('FILTER');
     
-    const formData = new FormData();
     const prompt = `Apply a filter to the entire image. Request: "${filterPrompt}". ${isAdaptive ? 'Adapt it intelligently to this specific photo.' : ''} Output ONLY the image.`;
     
-    formData.append("prompt", prompt);
-    formData.append("image", originalImage);
-
-    const result = await callBackend(formData);
+    const result = await callProvider(prompt, { image: originalImage }, signal);
     trackUsage('FILTER');
     return result;
 };
@@ -73,16 +69,13 @@ export const generateAdjustedImage = async (
     originalImage: File,
     adjustmentPrompt: string,
     isAdaptive: boolean = false,
-): Promise<string> => {
+    signal?: AbortSignal,
+): Promise<Blob> => {
     checkBudgetAvailability('ADJUSTMENT');
     
-    const formData = new FormData();
     const prompt = `Perform a global adjustment. Request: "${adjustmentPrompt}". ${isAdaptive ? 'Adapt to lighting/composition.' : ''} Output ONLY the image.`;
     
-    formData.append("prompt", prompt);
-    formData.append("image", originalImage);
-
-    const result = await callBackend(formData);
+    const result = await callProvider(prompt, { image: originalImage }, signal);
     trackUsage('ADJUSTMENT');
     return result;
 };
@@ -91,17 +84,13 @@ export const generateStyleTransferImage = async (
     contentImage: File,
     styleImage: File,
     userPrompt: string,
-): Promise<string> => {
+    signal?: AbortSignal,
+): Promise<Blob> => {
     checkBudgetAvailability('STYLE_TRANSFER');
     
-    const formData = new FormData();
     const prompt = `Apply the artistic style of the 'style' image to the 'content' image. Instruction: "${userPrompt}". Output ONLY the image.`;
     
-    formData.append("prompt", prompt);
-    formData.append("content", contentImage);
-    formData.append("style", styleImage);
-
-    const result = await callBackend(formData);
+    const result = await callProvider(prompt, { content: contentImage, style: styleImage }, signal);
     trackUsage('STYLE_TRANSFER');
     return result;
 };
@@ -109,19 +98,39 @@ export const generateStyleTransferImage = async (
 export const generateMaskedImage = async (
     baseImage: File,
     sourceImage: File,
-    maskImage: File
-): Promise<string> => {
+    maskImage: File,
+    signal?: AbortSignal,
+): Promise<Blob> => {
     checkBudgetAvailability('MASK_COMPOSITION');
     
-    const formData = new FormData();
     const prompt = `Combine the 'base image' and 'source image' using the 'mask image' (white = source, black = base). Blend seamlessly. Output ONLY the image.`;
     
-    formData.append("prompt", prompt);
-    formData.append("base", baseImage);
-    formData.append("source", sourceImage);
-    formData.append("mask", maskImage);
-
-    const result = await callBackend(formData);
+    const result = await callProvider(prompt, { base: baseImage, source: sourceImage, mask: maskImage }, signal);
     trackUsage('MASK_COMPOSITION');
     return result;
 };
+
+const SEGMENTATION_DESCRIPTIONS: Record<SegmentationTarget, string> = {
+    subject: 'the main subject (the people, animals or objects the photo is about)',
+    background: 'the background (everything except the main subject)',
+    sky: 'the sky',
+};
+
+/**
+ * Asks for a selection mask of the subject, background or sky, as a greyscale
+ * image (white = selected) for the mask tools to refine.
+ */
+export const generateSegmentationMask = async (
+    image: File,
+    target: SegmentationTarget,
+    signal?: AbortSignal,
+): Promise<Blob> => {
+    checkBudgetAvailability('SEGMENTATION');
+
+    const prompt = `Create a segmentation mask for this image. Select ${SEGMENTATION_DESCRIPTIONS[target]}.
+Output ONLY a black and white image with the same dimensions: white where selected, black elsewhere, with soft edges only along hair, fur or blur.`;
+
+    const result = await runOnProvider(provider => provider.segment(prompt, image, target, signal), signal);
+    trackUsage('SEGMENTATION');
+    return result;
+};
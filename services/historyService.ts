@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Helpers for building and describing edit history entries, and for the
+// branching history tree. Editing from an earlier step adds a sibling branch
+// instead of discarding the redo states, so alternatives can be revisited.
+// All tree operations are immutable and return a new tree.
+
+import { describeAdjustments } from './adjustmentPipeline';
+import { type CropRect, type CropTransform } from './cropService';
+import { type ImageMetadata } from './exifCodec';
+import { type HistoryEntry, type HistoryNode, type HistoryOperation, type HistoryTree, type Layer, type ManualAdjustments } from '../types';
+
+const createEntryId = (): string => {
+    return typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `step-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+export const createHistoryEntry = (
+    file: File,
+    operation: HistoryOperation,
+    details: { prompt?: string, params?: Record<string, unknown>, layers?: Layer[], metadata?: ImageMetadata } = {},
+): HistoryEntry => ({
+    id: createEntryId(),
+    file,
+    operation,
+    prompt: details.prompt,
+    params: details.params,
+    layers: details.layers,
+    metadata: details.metadata,
+    createdAt: Date.now(),
+});
+
+/**
+ * A short, human-readable summary of a step's parameters for the timeline.
+ */
+export const describeParams = (entry: HistoryEntry): string | null => {
+    const params = entry.params;
+    if (!params) return null;
+
+    switch (entry.operation) {
+        case 'CROP': {
+            const { width, height, rotation, quarterTurns, flipHorizontal, flipVertical } = params as Partial<CropRect & CropTransform>;
+            if (!width || !height) return null;
+            const angle = (quarterTurns ?? 0) * 90 + (rotation ?? 0);
+            const extras = [
+                angle ? `rotated ${Number(angle.toFixed(1))}°` : null,
+                flipHorizontal ? 'flipped H' : null,
+                flipVertical ? 'flipped V' : null,
+            ].filter(Boolean);
+            return [`${width} × ${height}px`, ...extras].join(', ');
+        }
+        case 'STYLE_TRANSFER':
+            return params.styleImageName ? `style: ${params.styleImageName}` : null;
+        case 'MASK_COMPOSITION': {
+            if (typeof params.sourceStep !== 'number') return null;
+            return params.aiBlend ? `from step ${params.sourceStep}, AI blend` : `from step ${params.sourceStep}`;
+        }
+        case 'MANUAL_ADJUSTMENT':
+            return params.adjustments ? describeAdjustments(params.adjustments as ManualAdjustments) : null;
+        default:
+            return null;
+    }
+};
+
+export const createHistoryTree = (root: HistoryEntry): HistoryTree => ({
+    nodes: { [root.id]: { ...root, parentId: null, childIds: [], activeChildId: null } },
+    rootId: root.id,
+    currentId: root.id,
+});
+
+/**
+ * Adds the entry as a child of the current node (or of `parentId`, e.g. the
+ * step an async edit started from) and makes it current.
+ * If the parent already has children, this starts a new branch.
+ */
+export const addHistoryNode = (tree: HistoryTree, entry: HistoryEntry, parentId: string = tree.currentId): HistoryTree => {
+    const parent = tree.nodes[parentId];
+    return {
+        ...tree,
+        nodes: {
+            ...tree.nodes,
+            [parent.id]: { ...parent, childIds: [...parent.childIds, entry.id], activeChildId: entry.id },
+            [entry.id]: { ...entry, parentId: parent.id, childIds: [], activeChildId: null },
+        },
+        currentId: entry.id,
+    };
+};
+
+/**
+ * The path from the root to the given node (the current node by default), root first.
+ */
+export const getLineage = (tree: HistoryTree, id: string = tree.currentId): HistoryNode[] => {
+    const lineage: HistoryNode[] = [];
+    let node: HistoryNode | undefined = tree.nodes[id];
+    while (node) {
+        lineage.unshift(node);
+        node = node.parentId ? tree.nodes[node.parentId] : undefined;
+    }
+    return lineage;
+};
+
+/**
+ * Makes the node current and points every ancestor at its branch, so redo
+ * (and the timeline) follow the branch the user last visited.
+ */
+export const selectHistoryNode = (tree: HistoryTree, id: string): HistoryTree => {
+    if (!tree.nodes[id]) return tree;
+    const nodes = { ...tree.nodes };
+    const lineage = getLineage(tree, id);
+    for (let i = 0; i < lineage.length - 1; i++) {
+        const ancestor = lineage[i];
+        const nextId = lineage[i + 1].id;
+        if (ancestor.activeChildId !== nextId) {
+            nodes[ancestor.id] = { ...ancestor, activeChildId: nextId };
+        }
+    }
+    return { ...tree, nodes, currentId: id };
+};
+
+/**
+ * The linear history shown to the user: the current node's lineage, followed by
+ * the redo states along the active child of each node down to the branch tip.
+ */
+export const getActiveBranch = (tree: HistoryTree): HistoryNode[] => {
+    const branch = getLineage(tree);
+    let nextId = branch[branch.length - 1]?.activeChildId;
+    while (nextId) {
+        const node: HistoryNode = tree.nodes[nextId];
+        branch.push(node);
+        nextId = node.activeChildId;
+    }
+    return branch;
+};
+
+/**
+ * The last step of every branch, oldest branch first.
+ */
+export const getBranchTips = (tree: HistoryTree): HistoryNode[] => {
+    return Object.values(tree.nodes)
+        .filter(node => node.childIds.length === 0)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * The alternatives at a node's position: its parent's children, in creation order.
+ */
+export const getSiblings = (tree: HistoryTree, id: string): HistoryNode[] => {
+    const node = tree.nodes[id];
+    const parent = node?.parentId ? tree.nodes[node.parentId] : undefined;
+    if (!parent) return node ? [node] : [];
+    return parent.childIds.map(childId => tree.nodes[childId]);
+};
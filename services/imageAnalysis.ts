@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Read-only analysis of rendered pixels: the Adjust tab histogram and the
+// highlight/shadow clipping overlays. Both are given the adjustment preview's
+// pixels, already capped in size, so every pixel is counted and the
+// histogram's clipping figures describe exactly what the overlay marks.
+
+export interface ImageHistogram {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+    luminance: Uint32Array;
+    /** Pixels that the clipping overlay marks; see isHighlightClipped and isShadowClipped. */
+    highlightClipped: number;
+    shadowClipped: number;
+    /** How many pixels were counted: the opaque ones. */
+    sampleCount: number;
+}
+
+// The one definition of clipping, shared by the histogram readout and the overlay
+const isHighlightClipped = (r: number, g: number, b: number) => r === 255 || g === 255 || b === 255;
+const isShadowClipped = (r: number, g: number, b: number) => r === 0 && g === 0 && b === 0;
+
+export const computeHistogram = (image: ImageData): ImageHistogram => {
+    const red = new Uint32Array(256);
+    const green = new Uint32Array(256);
+    const blue = new Uint32Array(256);
+    const luminance = new Uint32Array(256);
+    const pixels = image.data;
+    const pixelCount = image.width * image.height;
+    let highlightClipped = 0;
+    let shadowClipped = 0;
+    let sampleCount = 0;
+
+    for (let p = 0; p < pixelCount; p++) {
+        const i = p * 4;
+        if (pixels[i + 3] === 0) continue;
+        const r = pixels[i];
+        const g = pixels[i + 1];
+        const b = pixels[i + 2];
+        red[r]++;
+        green[g]++;
+        blue[b]++;
+        luminance[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+        if (isHighlightClipped(r, g, b)) highlightClipped++;
+        else if (isShadowClipped(r, g, b)) shadowClipped++;
+        sampleCount++;
+    }
+
+    return { red, green, blue, luminance, highlightClipped, shadowClipped, sampleCount };
+};
+
+/**
+ * Paints clipped pixels of `image` into a transparent overlay: red where any
+ * channel is blown out, blue where every channel is crushed to black.
+ */
+export const renderClippingOverlay = (
+    image: ImageData,
+    options: { highlights: boolean, shadows: boolean },
+): ImageData => {
+    const overlay = new ImageData(image.width, image.height);
+    const source = image.data;
+    const target = overlay.data;
+
+    for (let i = 0; i < source.length; i += 4) {
+        if (source[i + 3] === 0) continue;
+        const r = source[i];
+        const g = source[i + 1];
+        const b = source[i + 2];
+        if (options.highlights && isHighlightClipped(r, g, b)) {
+            target[i] = 255;
+            target[i + 3] = 255;
+        } else if (options.shadows && isShadowClipped(r, g, b)) {
+            target[i + 1] = 96;
+            target[i + 2] = 255;
+            target[i + 3] = 255;
+        }
+    }
+    return overlay;
+};
@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The pixel work behind imageWorkerClient: decoding, resampling, encoding,
+// cropping and data URL conversion. Written against OffscreenCanvas so it runs
+// inside the image worker; the same functions run on the main thread (with a
+// regular canvas if need be) when workers are unavailable. It imports nothing
+// at runtime, so loading it in the worker never pulls in the worker client.
+
+import { type CropRect, type CropTransform, type ImageSize } from './cropService';
+
+export interface DecodeOptions {
+    /** Exact output size; otherwise the natural size, scaled by the options below. */
+    width?: number;
+    height?: number;
+    /** Scale factor relative to the natural size. */
+    scale?: number;
+    /** Fit within this many pixels on the longer side, never enlarging. */
+    maxDimension?: number;
+    /**
+     * Colour-manage into sRGB (the default) rather than keeping the encoded
+     * values, e.g. to tag them with the source's own profile afterwards.
+     */
+    convertToSrgb?: boolean;
+    /** Fill behind transparent areas, e.g. white for JPEG. */
+    background?: string;
+}
+
+export interface EncodeOptions {
+    type: string;
+    /** 0–1, for lossy formats. */
+    quality?: number;
+}
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const createCanvas = (width: number, height: number): Canvas => {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+const getContext = (canvas: Canvas): Context2D => {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true, colorSpace: 'srgb' }) as Context2D | null;
+    if (!ctx) throw new Error('Could not get a 2D canvas context.');
+    return ctx;
+};
+
+const canvasToBlob = (canvas: Canvas, { type, quality }: EncodeOptions): Promise<Blob> => {
+    if ('convertToBlob' in canvas) {
+        return canvas.convertToBlob({ type, quality });
+    }
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error(`The image could not be encoded as ${type}.`)),
+        type,
+        quality,
+    ));
+};
+
+const getTargetSize = (source: ImageBitmap, options: DecodeOptions) => {
+    if (options.width && options.height) return { width: options.width, height: options.height };
+    let scale = options.scale ?? 1;
+    if (options.maxDimension) {
+        scale = Math.min(scale, 1, options.maxDimension / Math.max(source.width, source.height));
+    }
+    return {
+        width: Math.max(1, Math.round(source.width * scale)),
+        height: Math.max(1, Math.round(source.height * scale)),
+    };
+};
+
+/**
+ * Draws `source` at the target size. Large reductions are done in halving
+ * steps, since a single smoothed draw skips pixels and looks aliased.
+ */
+const drawResampled = (source: ImageBitmap, options: DecodeOptions): Canvas => {
+    const { width, height } = getTargetSize(source, options);
+    let current: ImageBitmap | Canvas = source;
+    while (current.width / 2 >= width && current.height / 2 >= height) {
+        const half = createCanvas(Math.round(current.width / 2), Math.round(current.height / 2));
+        const halfCtx = getContext(half);
+        halfCtx.imageSmoothingQuality = 'high';
+        halfCtx.drawImage(current, 0, 0, half.width, half.height);
+        current = half;
+    }
+
+    const canvas = createCanvas(width, height);
+    const ctx = getContext(canvas);
+    if (options.background) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(current, 0, 0, width, height);
+    return canvas;
+};
+
+const decodeBitmap = (image: Blob, convertToSrgb = true) =>
+    createImageBitmap(image, { colorSpaceConversion: convertToSrgb ? 'default' : 'none' });
+
+export const decodePixels = async (image: Blob, options: DecodeOptions = {}): Promise<ImageData> => {
+    const bitmap = await decodeBitmap(image, options.convertToSrgb);
+    try {
+        const canvas = drawResampled(bitmap, options);
+        return getContext(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    } finally {
+        bitmap.close();
+    }
+};
+
+export const encodePixels = (pixels: ImageData, options: EncodeOptions): Promise<Blob> => {
+    const canvas = createCanvas(pixels.width, pixels.height);
+    getContext(canvas).putImageData(pixels, 0, 0);
+    return canvasToBlob(canvas, options);
+};
+
+/**
+ * Decodes, resizes and re-encodes in one go, without handing pixels back and forth.
+ */
+export const resampleImage = async (image: Blob, options: DecodeOptions & EncodeOptions): Promise<Blob> => {
+    const bitmap = await decodeBitmap(image, options.convertToSrgb);
+    try {
+        return await canvasToBlob(drawResampled(bitmap, options), options);
+    } finally {
+        bitmap.close();
+    }
+};
+
+const totalAngle = (transform: CropTransform) => ((transform.quarterTurns % 4) * 90 + transform.rotation) * Math.PI / 180;
+
+/**
+ * The size of the bounding box the transformed image is drawn into.
+ */
+export const getTransformedSize = (source: ImageSize, transform: CropTransform): ImageSize => {
+    const angle = totalAngle(transform);
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    return {
+        width: Math.round(source.width * cos + source.height * sin),
+        height: Math.round(source.width * sin + source.height * cos),
+    };
+};
+
+/**
+ * Draws `source` into `ctx` in transformed space, scaled by `scale`.
+ */
+export const drawTransformed = (
+    ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+    source: CanvasImageSource,
+    sourceSize: ImageSize,
+    transform: CropTransform,
+    scale = 1,
+) => {
+    const bounds = getTransformedSize(sourceSize, transform);
+    ctx.save();
+    ctx.scale(scale, scale);
+    ctx.translate(bounds.width / 2, bounds.height / 2);
+    ctx.rotate(totalAngle(transform));
+    ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, -sourceSize.width / 2, -sourceSize.height / 2, sourceSize.width, sourceSize.height);
+    ctx.restore();
+};
+
+/**
+ * Renders the cropped region of the transformed image as a PNG; see cropService.
+ * `sourceSize` scales the image first, e.g. a layer to the size of its stack.
+ */
+export const cropImage = async (image: Blob, transform: CropTransform, rect: CropRect, sourceSize?: ImageSize): Promise<Blob> => {
+    const bitmap = await createImageBitmap(image);
+    try {
+        const canvas = createCanvas(Math.max(1, Math.round(rect.width)), Math.max(1, Math.round(rect.height)));
+        const ctx = getContext(canvas);
+        ctx.translate(-Math.round(rect.x), -Math.round(rect.y));
+        drawTransformed(ctx, bitmap, sourceSize ?? { width: bitmap.width, height: bitmap.height }, transform);
+        return await canvasToBlob(canvas, { type: 'image/png' });
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Decodes a base64 (or URL-encoded) data URL.
+ */
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const comma = dataUrl.indexOf(',');
+    const header = dataUrl.slice(0, comma);
+    const type = header.match(/^data:([^;,]+)/)?.[1] ?? 'application/octet-stream';
+    const base64 = dataUrl.slice(comma + 1);
+    if (!header.includes(';base64')) return new Blob([decodeURIComponent(base64)], { type });
+
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Worker entry for imageWorkerClient. Each request names an imageCodec
+// function and its arguments; pixel buffers in the reply are transferred
+// rather than copied.
+
+import { cropImage, dataUrlToBlob, decodePixels, encodePixels, resampleImage } from './imageCodec';
+import { type ImageWorkerRequest } from './imageWorkerClient';
+
+const run = (request: ImageWorkerRequest): Promise<unknown> | unknown => {
+    switch (request.op) {
+        case 'decode': return decodePixels(request.image, request.options);
+        case 'encode': return encodePixels(request.pixels, request.options);
+        case 'resample': return resampleImage(request.image, request.options);
+        case 'crop': return cropImage(request.image, request.transform, request.rect, request.sourceSize);
+        case 'dataUrlToBlob': return dataUrlToBlob(request.dataUrl);
+    }
+};
+
+self.onmessage = async (event: MessageEvent<ImageWorkerRequest & { id: number }>) => {
+    const { id } = event.data;
+    try {
+        const result = await run(event.data);
+        const transfer = result instanceof ImageData ? [result.data.buffer] : [];
+        self.postMessage({ id, result }, { transfer });
+    } catch (err) {
+        self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+    }
+};
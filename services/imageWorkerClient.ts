@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Runs imageCodec in a Web Worker so decoding, resampling, encoding and data URL
+// conversion of large images don't block the editor. The worker is started on
+// first use; if it can't be (no module workers or OffscreenCanvas), or fails,
+// the same code runs on the main thread instead, including for the requests
+// the worker had not answered yet.
+
+import * as codec from './imageCodec';
+import { type DecodeOptions, type EncodeOptions } from './imageCodec';
+import { type CropRect, type CropTransform, type ImageSize } from './cropService';
+
+export type { DecodeOptions, EncodeOptions };
+
+export type ImageWorkerRequest =
+    | { op: 'decode', image: Blob, options?: DecodeOptions }
+    | { op: 'encode', pixels: ImageData, options: EncodeOptions }
+    | { op: 'resample', image: Blob, options: DecodeOptions & EncodeOptions }
+    | { op: 'crop', image: Blob, transform: CropTransform, rect: CropRect, sourceSize?: ImageSize }
+    | { op: 'dataUrlToBlob', dataUrl: string };
+
+interface PendingRequest {
+    request: ImageWorkerRequest;
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+// Set by the first reply, once the worker is known to have loaded
+let workerReady = false;
+let nextId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker | null => {
+    if (worker || workerFailed) return worker;
+    if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+        workerFailed = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    } catch (err) {
+        console.warn('Image worker unavailable, processing images on the main thread.', err);
+        workerFailed = true;
+        return null;
+    }
+    worker.onmessage = (event: MessageEvent<{ id: number, result?: unknown, error?: string }>) => {
+        workerReady = true;
+        const request = pending.get(event.data.id);
+        if (!request) return;
+        pending.delete(event.data.id);
+        if (event.data.error !== undefined) {
+            request.reject(new Error(event.data.error));
+        } else {
+            request.resolve(event.data.result);
+        }
+    };
+    // A worker that fails to load never answers, so stop using it and redo what is outstanding here
+    worker.onerror = (event) => {
+        console.warn('Image worker failed, processing images on the main thread.', event.message);
+        worker?.terminate();
+        worker = null;
+        workerFailed = true;
+        pending.forEach(({ request, resolve, reject }) => {
+            if (hasInput(request)) {
+                runOnMainThread(request).then(resolve, reject);
+            } else {
+                reject(new Error('The image worker stopped unexpectedly.'));
+            }
+        });
+        pending.clear();
+    };
+    return worker;
+};
+
+const runOnMainThread = (request: ImageWorkerRequest): Promise<unknown> => {
+    switch (request.op) {
+        case 'decode': return codec.decodePixels(request.image, request.options);
+        case 'encode': return codec.encodePixels(request.pixels, request.options);
+        case 'resample': return codec.resampleImage(request.image, request.options);
+        case 'crop': return codec.cropImage(request.image, request.transform, request.rect, request.sourceSize);
+        case 'dataUrlToBlob': return Promise.resolve(codec.dataUrlToBlob(request.dataUrl));
+    }
+};
+
+// Pixels transferred to a worker that then failed are gone and cannot be processed again
+const hasInput = (request: ImageWorkerRequest) => request.op !== 'encode' || request.pixels.data.byteLength > 0;
+
+const run = <T>(request: ImageWorkerRequest, transfer: Transferable[] = []): Promise<T> => {
+    const target = getWorker();
+    if (!target) return runOnMainThread(request) as Promise<T>;
+    const id = nextId++;
+    return new Promise<unknown>((resolve, reject) => {
+        pending.set(id, { request, resolve, reject });
+        // Until the worker has loaded, buffers are copied so the request can still be redone here if it fails
+        target.postMessage({ ...request, id }, workerReady ? transfer : []);
+    }) as Promise<T>;
+};
+
+/**
+ * Decodes an image into pixels, optionally resized; see DecodeOptions.
+ */
+export const decodeImage = (image: Blob, options?: DecodeOptions): Promise<ImageData> =>
+    run({ op: 'decode', image, options });
+
+/**
+ * Encodes pixels into an image file. The pixel buffer may be transferred to
+ * the worker, leaving `pixels` empty; pass a copy if it is still needed.
+ */
+export const encodeImage = (pixels: ImageData, options: EncodeOptions): Promise<Blob> =>
+    run({ op: 'encode', pixels, options }, [pixels.data.buffer]);
+
+export const resampleImage = (image: Blob, options: DecodeOptions & EncodeOptions): Promise<Blob> =>
+    run({ op: 'resample', image, options });
+
+export const cropImage = (image: Blob, transform: CropTransform, rect: CropRect, sourceSize?: ImageSize): Promise<Blob> =>
+    run({ op: 'crop', image, transform, rect, sourceSize });
+
+export const dataUrlToBlob = (dataUrl: string): Promise<Blob> =>
+    run({ op: 'dataUrlToBlob', dataUrl });
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The layer stack behind each history step, and the compositor that flattens
+// it. Operations add a layer on top of their parent's stack instead of only
+// producing a new flat image, so a single edit can later be hidden, faded,
+// re-blended or reordered without redoing the ones above it. AI edits are
+// kept as the change they made rather than their whole result, so they apply
+// on top of whatever is below them. Each history step still keeps a flattened
+// render as its `file`, which AI operations use as their input.
+
+import { type HistoryEntry, type Layer, type LayerKind, type BlendMode } from '../types';
+import { applyAdjustments } from './adjustmentPipeline';
+import { decodeToImageData, defaultFeatherRadius, encodePng, featherMask } from './compositing';
+import { type CropRect, type CropTransform, type ImageSize } from './cropService';
+import { cropImage } from './imageWorkerClient';
+
+const createLayerId = (): string => {
+    return typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `layer-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+export const createLayer = (
+    kind: LayerKind,
+    name: string,
+    content: Pick<Layer, 'image' | 'difference' | 'mask' | 'featherRadius' | 'adjustments'>,
+): Layer => ({
+    id: createLayerId(),
+    kind,
+    name,
+    visible: true,
+    opacity: 1,
+    blendMode: 'normal',
+    ...content,
+});
+
+const encodeDifference = async (source: ImageData, result: ImageData): Promise<NonNullable<Layer['difference']>> => {
+    const lift = new ImageData(source.width, source.height);
+    const drop = new ImageData(source.width, source.height);
+    for (let i = 0; i < source.data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            const change = result.data[i + c] - source.data[i + c];
+            if (change > 0) lift.data[i + c] = change;
+            else drop.data[i + c] = -change;
+        }
+        lift.data[i + 3] = 255;
+        drop.data[i + 3] = 255;
+    }
+    const [liftFile, dropFile] = await Promise.all([
+        encodePng(lift, `edit-lift-${Date.now()}.png`),
+        encodePng(drop, `edit-drop-${Date.now()}.png`),
+    ]);
+    return { lift: liftFile, drop: dropFile };
+};
+
+/**
+ * An edit layer holding what `after` changed relative to `before`, the image
+ * the edit was made from.
+ */
+export const createEditLayer = async (name: string, before: File, after: File): Promise<Layer> => {
+    const source = await decodeToImageData(before);
+    const result = await decodeToImageData(after, source.width, source.height);
+    return createLayer('edit', name, { difference: await encodeDifference(source, result) });
+};
+
+/**
+ * The layer stack of a history step. Steps without one are a single base layer.
+ */
+export const getEntryLayers = (entry: HistoryEntry): Layer[] =>
+    entry.layers ?? [{ ...createLayer('base', 'Background', { image: entry.file }), id: `${entry.id}-base` }];
+
+export const updateLayer = (layers: Layer[], id: string, changes: Partial<Omit<Layer, 'id' | 'kind'>>): Layer[] =>
+    layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer);
+
+/**
+ * Crops every layer the way a crop step crops its source, so the stack is kept
+ * instead of starting over from the flattened image. Layer images are scaled
+ * to `baseSize` first, as they are when rendered. Adjustment layers keep the
+ * change they made before the crop, so the cropped stack renders exactly to
+ * the cropped image.
+ */
+export const cropLayers = async (layers: Layer[], baseSize: ImageSize, transform: CropTransform, rect: CropRect): Promise<Layer[]> => {
+    const crop = async (file: File): Promise<File> =>
+        new File([await cropImage(file, transform, rect, baseSize)], file.name.replace(/\.\w+$/, '.png'), { type: 'image/png' });
+    const cropped: Layer[] = [];
+    // One at a time, as each adjustment layer renders the full-size stack below it
+    for (const [index, layer] of layers.entries()) {
+        let difference = layer.difference;
+        if (layer.kind === 'adjustment' && !difference && layer.adjustments) {
+            const below = await renderLayers(layers.slice(0, index));
+            const adjusted = applyAdjustments(new ImageData(new Uint8ClampedArray(below.data), below.width, below.height), layer.adjustments);
+            difference = await encodeDifference(below, adjusted);
+        }
+        cropped.push({
+            ...layer,
+            image: layer.image && await crop(layer.image),
+            mask: layer.mask && await crop(layer.mask),
+            difference: difference && { lift: await crop(difference.lift), drop: await crop(difference.drop) },
+        });
+    }
+    return cropped;
+};
+
+/**
+ * Moves a layer one position up (towards the top) or down. The base layer stays at the bottom.
+ */
+export const moveLayer = (layers: Layer[], id: string, direction: 'up' | 'down'): Layer[] => {
+    const index = layers.findIndex(layer => layer.id === id);
+    const target = direction === 'up' ? index + 1 : index - 1;
+    if (index <= 0 || target <= 0 || target >= layers.length) return layers;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+const toCompositeOperation = (mode: BlendMode): GlobalCompositeOperation => mode === 'normal' ? 'source-over' : mode;
+
+/**
+ * Composites the visible layers bottom to top at the size of the base layer.
+ */
+export const renderLayers = async (layers: Layer[]): Promise<ImageData> => {
+    const base = layers.find(layer => layer.image);
+    if (!base?.image) throw new Error('The layer stack has no image to render.');
+    const bitmap = await createImageBitmap(base.image);
+    const { width, height } = bitmap;
+    bitmap.close();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get a 2D canvas context.');
+    const layerCanvas = document.createElement('canvas');
+    layerCanvas.width = width;
+    layerCanvas.height = height;
+    const layerCtx = layerCanvas.getContext('2d');
+    if (!layerCtx) throw new Error('Could not get a 2D canvas context.');
+
+    for (const layer of layers) {
+        if (!layer.visible || layer.opacity <= 0) continue;
+
+        let pixels: ImageData;
+        if (layer.difference) {
+            const [lift, drop] = await Promise.all([
+                decodeToImageData(layer.difference.lift, width, height),
+                decodeToImageData(layer.difference.drop, width, height),
+            ]);
+            pixels = ctx.getImageData(0, 0, width, height);
+            const data = pixels.data;
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] += lift.data[i] - drop.data[i];
+                data[i + 1] += lift.data[i + 1] - drop.data[i + 1];
+                data[i + 2] += lift.data[i + 2] - drop.data[i + 2];
+            }
+        } else if (layer.kind === 'adjustment') {
+            if (!layer.adjustments) continue;
+            pixels = applyAdjustments(ctx.getImageData(0, 0, width, height), layer.adjustments);
+        } else if (layer.image) {
+            pixels = await decodeToImageData(layer.image, width, height);
+        } else {
+            continue;
+        }
+
+        if (layer.mask) {
+            const weights = featherMask(await decodeToImageData(layer.mask, width, height), layer.featherRadius ?? defaultFeatherRadius(width, height));
+            const data = pixels.data;
+            for (let p = 0; p < weights.length; p++) data[p * 4 + 3] *= weights[p];
+        }
+
+        layerCtx.clearRect(0, 0, width, height);
+        layerCtx.putImageData(pixels, 0, 0);
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+        ctx.drawImage(layerCanvas, 0, 0);
+    }
+
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Renders the layer stack into a single PNG, e.g. for export.
+ */
+export const flattenLayers = async (layers: Layer[]): Promise<File> =>
+    encodePng(await renderLayers(layers), `flattened-${Date.now()}.png`);
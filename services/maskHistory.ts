@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Undo history for MaskingCanvas. Rather than a full-canvas snapshot per
+// stroke, each step keeps only the coverage of the rectangle that changed,
+// before and after, one byte per pixel. The oldest steps are dropped once the
+// history outgrows its memory budget.
+
+/** A pixel rectangle of the mask. */
+export interface MaskRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface MaskPatch extends MaskRegion {
+    /** Coverage (0–255) of each pixel in the rectangle, row by row. */
+    before: Uint8Array;
+    after: Uint8Array;
+    /** Change in the number of selected pixels from `before` to `after`. */
+    selectedDelta: number;
+}
+
+/** Upper bound for the pixels held by one mask's undo and redo steps. */
+export const MASK_HISTORY_BUDGET_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Copies one side of `patch` into `target`, keeping an in-memory copy of the canvas in sync.
+ */
+export const writePatch = (target: ImageData, patch: MaskPatch, state: 'before' | 'after'): void => {
+    const values = patch[state];
+    const data = target.data;
+    for (let row = 0; row < patch.height; row++) {
+        let i = ((patch.y + row) * target.width + patch.x) * 4;
+        for (let col = 0; col < patch.width; col++, i += 4) {
+            data[i] = data[i + 1] = data[i + 2] = values[row * patch.width + col];
+            data[i + 3] = 255;
+        }
+    }
+};
+
+/**
+ * The change from `committed` to `current`, a read of the canvas at (x, y), cropped
+ * to the pixels that differ, or null when nothing changed. Only the region read is
+ * compared, so a stroke costs its own size rather than the whole mask's.
+ */
+export const createMaskPatch = (committed: ImageData, current: ImageData, x: number, y: number): MaskPatch | null => {
+    const { width, height } = current;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let row = 0; row < height; row++) {
+        const start = ((y + row) * committed.width + x) * 4;
+        for (let col = 0; col < width; col++) {
+            if (committed.data[start + col * 4] === current.data[(row * width + col) * 4]) continue;
+            if (col < minX) minX = col;
+            if (col > maxX) maxX = col;
+            if (row < minY) minY = row;
+            maxY = row;
+        }
+    }
+    if (maxX < 0) return null;
+
+    const patchWidth = maxX - minX + 1;
+    const patchHeight = maxY - minY + 1;
+    const before = new Uint8Array(patchWidth * patchHeight);
+    const after = new Uint8Array(patchWidth * patchHeight);
+    let selectedDelta = 0;
+    for (let row = 0; row < patchHeight; row++) {
+        const committedStart = ((y + minY + row) * committed.width + x + minX) * 4;
+        const currentStart = ((minY + row) * width + minX) * 4;
+        for (let col = 0; col < patchWidth; col++) {
+            const p = row * patchWidth + col;
+            before[p] = committed.data[committedStart + col * 4];
+            after[p] = current.data[currentStart + col * 4];
+            selectedDelta += (after[p] !== 0 ? 1 : 0) - (before[p] !== 0 ? 1 : 0);
+        }
+    }
+    return { x: x + minX, y: y + minY, width: patchWidth, height: patchHeight, before, after, selectedDelta };
+};
+
+const patchBytes = (patch: MaskPatch) => patch.before.byteLength + patch.after.byteLength;
+
+/**
+ * Drops the oldest undo steps until undo and redo together fit the budget.
+ * The newest step is always kept, so the last action can be undone however large it was.
+ */
+export const trimToBudget = (undoStack: MaskPatch[], redoStack: MaskPatch[], budget = MASK_HISTORY_BUDGET_BYTES): MaskPatch[] => {
+    let total = [...undoStack, ...redoStack].reduce((sum, patch) => sum + patchBytes(patch), 0);
+    let first = 0;
+    while (total > budget && first < undoStack.length - 1) {
+        total -= patchBytes(undoStack[first]);
+        first++;
+    }
+    return first > 0 ? undoStack.slice(first) : undoStack;
+};
+
+/**
+ * The number of selected pixels, those with any coverage. Counted once when the
+ * mask is set up; patches then keep the count current.
+ */
+export const countSelectedPixels = (image: ImageData): number => {
+    const data = image.data;
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i] !== 0) count++;
+    }
+    return count;
+};
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Whole-mask edits for MaskingCanvas: invert, grow/shrink, feather and bucket
+// fill. A mask is handled as one coverage value per pixel (0 = unselected,
+// 255 = selected), read from the canvas red channel so erased (transparent)
+// pixels count as unselected.
+
+import { blurWeights } from './compositing';
+
+export const readMaskValues = (image: ImageData): Uint8ClampedArray => {
+    const values = new Uint8ClampedArray(image.width * image.height);
+    for (let p = 0; p < values.length; p++) values[p] = image.data[p * 4];
+    return values;
+};
+
+/**
+ * Writes coverage values back as opaque greys, the form the mask is exported in.
+ */
+export const writeMaskValues = (values: Uint8ClampedArray, image: ImageData): void => {
+    const data = image.data;
+    for (let p = 0; p < values.length; p++) {
+        const i = p * 4;
+        data[i] = data[i + 1] = data[i + 2] = values[p];
+        data[i + 3] = 255;
+    }
+};
+
+/**
+ * Coverage from an image that was not drawn on the canvas, such as a returned
+ * segmentation mask: its luminance, so slightly tinted greys still read correctly.
+ */
+export const imageToMaskValues = (image: ImageData): Uint8ClampedArray => {
+    const values = new Uint8ClampedArray(image.width * image.height);
+    const data = image.data;
+    for (let p = 0; p < values.length; p++) {
+        const i = p * 4;
+        values[p] = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * data[i + 3] / 255;
+    }
+    return values;
+};
+
+export const invertMask = (values: Uint8ClampedArray): Uint8ClampedArray => values.map(value => 255 - value);
+
+/**
+ * Running max (or min) over a window of `radius` on each side, along rows or
+ * columns, using a monotonic queue so the cost does not depend on the radius.
+ */
+const slidingExtreme = (
+    src: Uint8ClampedArray,
+    dst: Uint8ClampedArray,
+    length: number,
+    lines: number,
+    stride: number,
+    step: number,
+    radius: number,
+    isMax: boolean,
+) => {
+    const queue = new Int32Array(length);
+    const better = (a: number, b: number) => isMax ? a >= b : a <= b;
+    for (let line = 0; line < lines; line++) {
+        const start = line * stride;
+        let head = 0;
+        let tail = 0;
+        let next = 0;
+        for (let i = 0; i < length; i++) {
+            // Admit everything up to the window's right edge
+            for (; next < length && next <= i + radius; next++) {
+                const value = src[start + next * step];
+                while (tail > head && better(value, src[start + queue[tail - 1] * step])) tail--;
+                queue[tail++] = next;
+            }
+            while (queue[head] < i - radius) head++;
+            dst[start + i * step] = src[start + queue[head] * step];
+        }
+    }
+};
+
+const morphology = (values: Uint8ClampedArray, width: number, height: number, radius: number, isMax: boolean): Uint8ClampedArray => {
+    if (radius < 1) return values;
+    const rows = new Uint8ClampedArray(values.length);
+    const out = new Uint8ClampedArray(values.length);
+    slidingExtreme(values, rows, width, height, width, 1, radius, isMax);
+    slidingExtreme(rows, out, height, width, 1, width, radius, isMax);
+    return out;
+};
+
+/**
+ * Expands the selection outwards by `radius` pixels.
+ */
+export const growMask = (values: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray =>
+    morphology(values, width, height, Math.round(radius), true);
+
+/**
+ * Contracts the selection inwards by `radius` pixels.
+ */
+export const shrinkMask = (values: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray =>
+    morphology(values, width, height, Math.round(radius), false);
+
+/**
+ * Softens the selection edge over roughly `radius` pixels.
+ */
+export const featherMaskEdges = (values: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    if (radius < 1) return values;
+    const weights = new Float32Array(values.length);
+    for (let p = 0; p < values.length; p++) weights[p] = values[p];
+    const blurred = blurWeights(weights, width, height, Math.max(1, Math.round(radius / 2)));
+    return Uint8ClampedArray.from(blurred);
+};
+
+/**
+ * Sets the contiguous region around (x, y) whose coverage is within
+ * `tolerance` of the clicked pixel to `value`, like a paint bucket.
+ */
+export const floodFillMask = (
+    values: Uint8ClampedArray,
+    width: number,
+    height: number,
+    x: number,
+    y: number,
+    value: number,
+    tolerance = 32,
+): Uint8ClampedArray => {
+    const startX = Math.floor(x);
+    const startY = Math.floor(y);
+    if (startX < 0 || startY < 0 || startX >= width || startY >= height) return values;
+
+    const out = new Uint8ClampedArray(values);
+    const seed = values[startY * width + startX];
+    const visited = new Uint8Array(values.length);
+    const matches = (p: number) => !visited[p] && Math.abs(values[p] - seed) <= tolerance;
+    const stack = [startY * width + startX];
+
+    // Scanline fill: extend each popped pixel to a full horizontal run, then seed the rows above and below
+    while (stack.length > 0) {
+        const p = stack.pop()!;
+        if (!matches(p)) continue;
+        const row = Math.floor(p / width) * width;
+        let left = p;
+        let right = p;
+        while (left > row && matches(left - 1)) left--;
+        while (right < row + width - 1 && matches(right + 1)) right++;
+        for (let q = left; q <= right; q++) {
+            visited[q] = 1;
+            out[q] = value;
+            if (q >= width && matches(q - width)) stack.push(q - width);
+            if (q < values.length - width && matches(q + width)) stack.push(q + width);
+        }
+    }
+    return out;
+};
@@ -0,0 +1,468 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Reads camera metadata when an image is imported and writes it back into
+// exported files. Edits themselves always produce bare canvas output, so the
+// metadata travels alongside the history instead (see HistoryEntry.metadata).
+// JPEG, PNG and WebP are supported; other containers are passed through as-is.
+
+import { type ImageMetadata, parseExif, parseXmp, encodeExif, buildXmp } from './exifCodec';
+
+export type { ImageMetadata, GpsPosition } from './exifCodec';
+
+/** Written as the EXIF Software and XMP CreatorTool of files tagged as AI-edited. */
+export const PROVENANCE_SOFTWARE = 'Vixel AI';
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const EXTENDED_XMP_HEADER = 'http://ns.adobe.com/xmp/extension/\0';
+const XMP_NOTE_NAMESPACE = 'http://ns.adobe.com/xmp/note/';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+// A JPEG segment's length field counts itself and cannot exceed 0xFFFF
+const MAX_JPEG_SEGMENT_PAYLOAD = 0xffff - 2;
+
+interface EmbeddedMetadata {
+    exif?: Uint8Array;
+    xmp?: string;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, start: number, value: string) => ascii(bytes, start, value.length) === value;
+
+const readJpeg = (bytes: Uint8Array): EmbeddedMetadata => {
+    const found: EmbeddedMetadata = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: no more metadata segments follow
+        if (marker === 0xda) break;
+        const length = view.getUint16(offset + 2);
+        const payload = offset + 4;
+        if (marker === 0xe1 && startsWith(bytes, payload, EXIF_HEADER)) {
+            found.exif ??= bytes.subarray(payload + EXIF_HEADER.length, offset + 2 + length);
+        } else if (marker === 0xe1 && startsWith(bytes, payload, XMP_HEADER)) {
+            found.xmp ??= new TextDecoder().decode(bytes.subarray(payload + XMP_HEADER.length, offset + 2 + length));
+        }
+        offset += 2 + length;
+    }
+    return found;
+};
+
+const readPng = (bytes: Uint8Array): EmbeddedMetadata => {
+    const found: EmbeddedMetadata = {};
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = ascii(bytes, offset + 4, 4);
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        if (type === 'eXIf') {
+            found.exif = data;
+        } else if (type === 'iTXt' && startsWith(data, 0, `${PNG_XMP_KEYWORD}\0`)) {
+            // Keyword, compression flag and method, then NUL-terminated language and translated keyword
+            let textStart = PNG_XMP_KEYWORD.length + 3;
+            for (let nulls = 0; nulls < 2 && textStart < data.length; textStart++) {
+                if (data[textStart] === 0) nulls++;
+            }
+            if (data[PNG_XMP_KEYWORD.length + 1] === 0) found.xmp = new TextDecoder().decode(data.subarray(textStart));
+        } else if (type === 'IDAT' || type === 'IEND') {
+            break;
+        }
+        offset += 12 + length;
+    }
+    return found;
+};
+
+interface RiffChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+const readRiffChunks = (bytes: Uint8Array): RiffChunk[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: RiffChunk[] = [];
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const length = view.getUint32(offset + 4, true);
+        chunks.push({ type: ascii(bytes, offset, 4), data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += 8 + length + (length % 2);
+    }
+    return chunks;
+};
+
+const readWebp = (bytes: Uint8Array): EmbeddedMetadata => {
+    const chunks = readRiffChunks(bytes);
+    const exif = chunks.find(chunk => chunk.type === 'EXIF')?.data;
+    const xmp = chunks.find(chunk => chunk.type === 'XMP ')?.data;
+    return {
+        // Some encoders keep the JPEG-style prefix
+        exif: exif && startsWith(exif, 0, EXIF_HEADER) ? exif.subarray(EXIF_HEADER.length) : exif,
+        xmp: xmp ? new TextDecoder().decode(xmp) : undefined,
+    };
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isPng = (bytes: Uint8Array) => startsWith(bytes, 1, 'PNG');
+const isWebp = (bytes: Uint8Array) => startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP');
+
+const withoutEmptyFields = (metadata: ImageMetadata): ImageMetadata | null => {
+    const entries = Object.entries(metadata).filter(([, value]) => value !== undefined && value !== '');
+    return entries.length > 0 ? Object.fromEntries(entries) as ImageMetadata : null;
+};
+
+/**
+ * The colour profile of a JPEG (its APP2 segments, as the profile may be split
+ * across several) or PNG (its iCCP chunk), copied whole so it can be put back
+ * into a re-encoded file. Empty for other formats or when there is none.
+ */
+const readIccProfile = (bytes: Uint8Array): Uint8Array[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const found: Uint8Array[] = [];
+    if (isJpeg(bytes)) {
+        let offset = 2;
+        while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda) {
+            const length = view.getUint16(offset + 2);
+            if (bytes[offset + 1] === 0xe2 && startsWith(bytes, offset + 4, ICC_HEADER)) {
+                found.push(bytes.subarray(offset, offset + 2 + length));
+            }
+            offset += 2 + length;
+        }
+    } else if (isPng(bytes)) {
+        let offset = 8;
+        while (offset + 12 <= bytes.length) {
+            const length = view.getUint32(offset);
+            const type = ascii(bytes, offset + 4, 4);
+            if (type === 'iCCP') found.push(bytes.subarray(offset, offset + 12 + length));
+            if (type === 'IDAT' || type === 'IEND') break;
+            offset += 12 + length;
+        }
+    }
+    return found;
+};
+
+/**
+ * The carried metadata and EXIF orientation of an image file. Unknown formats
+ * and unreadable metadata give no metadata and orientation 1.
+ */
+export const readImageMetadata = async (file: Blob): Promise<{ metadata: ImageMetadata | null, orientation: number }> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const embedded = isJpeg(bytes) ? readJpeg(bytes) : isPng(bytes) ? readPng(bytes) : isWebp(bytes) ? readWebp(bytes) : {};
+    const parsed = embedded.exif ? parseExif(embedded.exif) : null;
+    const fromXmp = embedded.xmp ? parseXmp(embedded.xmp) : {};
+    // EXIF wins where both are present; XMP fills in what EXIF lacks
+    const metadata = withoutEmptyFields({ ...fromXmp, ...withoutEmptyFields(parsed?.metadata ?? {}) });
+    return { metadata, orientation: parsed?.orientation ?? 1 };
+};
+
+/**
+ * Redraws the image with its EXIF orientation applied, so every later step
+ * (and the AI backend) sees the pixels upright. A colour profile is carried
+ * over with the pixels left in its colour space; without one the browser's
+ * sRGB rendering is kept.
+ */
+const drawUpright = async (file: File): Promise<File> => {
+    const profile = readIccProfile(new Uint8Array(await file.arrayBuffer()));
+    const bitmap = await createImageBitmap(file, {
+        imageOrientation: 'from-image',
+        colorSpaceConversion: profile.length > 0 ? 'none' : 'default',
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('Could not get a 2D canvas context.');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const type = file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.95));
+    if (!blob) throw new Error('The rotated image could not be encoded.');
+    return new File([profile.length > 0 ? await withIccProfile(blob, profile) : blob], file.name, { type });
+};
+
+/**
+ * Reads an uploaded image's metadata and applies its orientation. Upright
+ * files, and files whose metadata cannot be read, are used as they are, so
+ * their bytes and colour profile are untouched.
+ */
+export const prepareImportedImage = async (file: File): Promise<{ file: File, metadata: ImageMetadata | null }> => {
+    try {
+        const { metadata, orientation } = await readImageMetadata(file);
+        return { file: orientation > 1 ? await drawUpright(file) : file, metadata };
+    } catch (err) {
+        console.warn('[MetadataService] Could not read image metadata', err);
+        return { file, metadata: null };
+    }
+};
+
+// --- Writing ---
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        out.set(part, offset);
+        offset += part.length;
+    });
+    return out;
+};
+
+const encodeText = (value: string) => new TextEncoder().encode(value);
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+    const segment = new Uint8Array(4 + payload.length);
+    segment[0] = 0xff;
+    segment[1] = marker;
+    new DataView(segment.buffer).setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+    return segment;
+};
+
+// After the JFIF header when there is one, which readers expect first
+const jpegInsertOffset = (bytes: Uint8Array): number =>
+    bytes[2] === 0xff && bytes[3] === 0xe0 ? 4 + ((bytes[4] << 8) | bytes[5]) : 2;
+
+// Straight after IHDR, which is always the first chunk
+const pngInsertOffset = (bytes: Uint8Array): number =>
+    8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+
+/**
+ * The colour profile of a JPEG or PNG, empty when it has none; see withIccProfile.
+ */
+export const readColorProfile = async (file: Blob): Promise<Uint8Array[]> =>
+    readIccProfile(new Uint8Array(await file.arrayBuffer()));
+
+/**
+ * Puts a profile from readIccProfile into a freshly encoded file of the same
+ * format. Formats other than JPEG and PNG are returned unchanged.
+ */
+export const withIccProfile = async (image: Blob, profile: Uint8Array[]): Promise<Blob> => {
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const insertAt = isJpeg(bytes) ? jpegInsertOffset(bytes) : isPng(bytes) ? pngInsertOffset(bytes) : null;
+    if (insertAt === null) return image;
+    return new Blob([concat([bytes.subarray(0, insertAt), ...profile, bytes.subarray(insertAt)]).slice()], { type: image.type });
+};
+
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32));
+
+/**
+ * MD5 digest as uppercase hex, the form Extended XMP uses to link its parts.
+ */
+const md5Hex = (bytes: Uint8Array): string => {
+    const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, (bytes.length * 8) >>> 0, true);
+    view.setUint32(paddedLength - 4, Math.floor(bytes.length / 0x20000000), true);
+
+    const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+    for (let block = 0; block < paddedLength; block += 64) {
+        let [a, b, c, d] = state;
+        for (let i = 0; i < 64; i++) {
+            const round = i >>> 4;
+            const f = round === 0 ? (b & c) | (~b & d)
+                : round === 1 ? (d & b) | (~d & c)
+                : round === 2 ? b ^ c ^ d
+                : c ^ (b | ~d);
+            const word = [i, 5 * i + 1, 3 * i + 5, 7 * i][round] % 16;
+            const sum = (f + a + MD5_CONSTANTS[i] + view.getUint32(block + word * 4, true)) | 0;
+            const shift = MD5_SHIFTS[round * 4 + (i % 4)];
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+        }
+        state[0] = (state[0] + a) | 0;
+        state[1] = (state[1] + b) | 0;
+        state[2] = (state[2] + c) | 0;
+        state[3] = (state[3] + d) | 0;
+    }
+    const digest = new Uint8Array(16);
+    const out = new DataView(digest.buffer);
+    state.forEach((word, i) => out.setUint32(i * 4, word, true));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/**
+ * Splits XMP too large for one segment as Extended XMP describes: `standardXmp`,
+ * given the digest that names the extension, goes in the usual segment, and the
+ * complete packet follows in numbered pieces that readers join back together.
+ */
+const extendedXmpSegments = (xmp: string, standardXmp: (guid: string) => string): Uint8Array[] => {
+    // The extension is a bare x:xmpmeta element, without the packet wrapper
+    const extension = encodeText(xmp.replace(/<\?xpacket[^?]*\?>\n?/g, ''));
+    const guid = md5Hex(extension);
+    const standard = concat([encodeText(XMP_HEADER), encodeText(standardXmp(guid))]);
+    if (standard.length > MAX_JPEG_SEGMENT_PAYLOAD) {
+        console.warn('[MetadataService] XMP is too large for a JPEG segment and was left out');
+        return [];
+    }
+
+    const header = concat([encodeText(EXTENDED_XMP_HEADER), encodeText(guid), new Uint8Array(8)]);
+    const pieceSize = MAX_JPEG_SEGMENT_PAYLOAD - header.length;
+    const segments = [jpegSegment(0xe1, standard)];
+    for (let offset = 0; offset < extension.length; offset += pieceSize) {
+        const pieceHeader = header.slice();
+        const view = new DataView(pieceHeader.buffer);
+        view.setUint32(pieceHeader.length - 8, extension.length);
+        view.setUint32(pieceHeader.length - 4, offset);
+        segments.push(jpegSegment(0xe1, concat([pieceHeader, extension.subarray(offset, offset + pieceSize)])));
+    }
+    return segments;
+};
+
+/**
+ * `standardXmp` builds the packet kept in the main segment when `xmp` has to be
+ * written as Extended XMP.
+ */
+const writeJpeg = (bytes: Uint8Array, exif: Uint8Array, xmp: string, standardXmp: (guid: string) => string): Uint8Array => {
+    const segments = [jpegSegment(0xe1, concat([encodeText(EXIF_HEADER), exif]))];
+    const full = concat([encodeText(XMP_HEADER), encodeText(xmp)]);
+    if (full.length <= MAX_JPEG_SEGMENT_PAYLOAD) {
+        segments.push(jpegSegment(0xe1, full));
+    } else {
+        segments.push(...extendedXmpSegments(xmp, standardXmp));
+    }
+    const insertAt = jpegInsertOffset(bytes);
+    return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encodeText(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+const writePng = (bytes: Uint8Array, exif: Uint8Array, xmp: string): Uint8Array => {
+    const ihdrEnd = pngInsertOffset(bytes);
+    const xmpChunk = pngChunk('iTXt', concat([encodeText(`${PNG_XMP_KEYWORD}\0\0\0\0\0`), encodeText(xmp)]));
+    return concat([bytes.subarray(0, ihdrEnd), pngChunk('eXIf', exif), xmpChunk, bytes.subarray(ihdrEnd)]);
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(encodeText(type), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+/**
+ * Canvas size and alpha of a simple (VP8 or VP8L) WebP, read from the bitstream header.
+ */
+const readWebpBitstream = (chunk: RiffChunk): { width: number, height: number, alpha: boolean } | null => {
+    const { data } = chunk;
+    if (chunk.type === 'VP8L' && data[0] === 0x2f) {
+        const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+    }
+    if (chunk.type === 'VP8 ' && data[3] === 0x9d && data[4] === 0x01 && data[5] === 0x2a) {
+        return { width: (data[6] | (data[7] << 8)) & 0x3fff, height: (data[8] | (data[9] << 8)) & 0x3fff, alpha: false };
+    }
+    return null;
+};
+
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+const writeWebp = (bytes: Uint8Array, exif: Uint8Array, xmp: string): Uint8Array => {
+    const chunks = readRiffChunks(bytes).filter(chunk => chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+    // Metadata needs the extended format, whose VP8X header flags the chunks that follow
+    let header = chunks[0]?.type === 'VP8X' ? new Uint8Array(chunks.shift()!.data) : null;
+    if (!header) {
+        const bitstream = chunks[0] ? readWebpBitstream(chunks[0]) : null;
+        if (!bitstream) return bytes;
+        header = new Uint8Array(10);
+        const view = new DataView(header.buffer);
+        view.setUint16(4, (bitstream.width - 1) & 0xffff, true);
+        header[6] = (bitstream.width - 1) >>> 16;
+        view.setUint16(7, (bitstream.height - 1) & 0xffff, true);
+        header[9] = (bitstream.height - 1) >>> 16;
+        if (bitstream.alpha) header[0] |= VP8X_ALPHA;
+    }
+    header[0] |= VP8X_EXIF | VP8X_XMP;
+
+    const body = concat([
+        encodeText('WEBP'),
+        riffChunk('VP8X', header),
+        ...chunks.map(chunk => riffChunk(chunk.type, chunk.data)),
+        riffChunk('EXIF', exif),
+        riffChunk('XMP ', encodeText(xmp)),
+    ]);
+    const riffHeader = new Uint8Array(8);
+    riffHeader.set(encodeText('RIFF'), 0);
+    new DataView(riffHeader.buffer).setUint32(4, body.length, true);
+    return concat([riffHeader, body]);
+};
+
+export interface MetadataWriteOptions {
+    /** Fields carried from the original, or null to write none. */
+    metadata: ImageMetadata | null;
+    stripGps: boolean;
+    /** Marks the file as edited with AI in EXIF Software and the IPTC digital source type. */
+    aiEdited: boolean;
+    /** Further XMP properties, such as the provenance manifest. */
+    xmpExtras?: { namespaces: Record<string, string>, properties: string[] };
+}
+
+/**
+ * Writes EXIF and XMP into an encoded JPEG, PNG or WebP. Other formats, and
+ * files with nothing to write, are returned unchanged.
+ */
+export const embedMetadata = async (image: Blob, options: MetadataWriteOptions): Promise<Blob> => {
+    const fields: ImageMetadata = { ...options.metadata };
+    if (options.stripGps) delete fields.gps;
+    const { xmpExtras } = options;
+    if (!withoutEmptyFields(fields) && !options.aiEdited && !xmpExtras) return image;
+
+    const software = options.aiEdited ? PROVENANCE_SOFTWARE : undefined;
+    const exif = encodeExif(fields, software);
+    const xmp = buildXmp(fields, { software, aiEdited: options.aiEdited, extraNamespaces: xmpExtras?.namespaces, extraProperties: xmpExtras?.properties });
+    // The basic fields, pointing readers at the extension that holds the rest
+    const standardXmp = (guid: string) => buildXmp(fields, {
+        software,
+        aiEdited: options.aiEdited,
+        extraNamespaces: { xmpNote: XMP_NOTE_NAMESPACE },
+        extraProperties: [`<xmpNote:HasExtendedXMP>${guid}</xmpNote:HasExtendedXMP>`],
+    });
+    const bytes = new Uint8Array(await image.arrayBuffer());
+
+    let out: Uint8Array;
+    if (isJpeg(bytes)) out = writeJpeg(bytes, exif, xmp, standardXmp);
+    else if (isPng(bytes)) out = writePng(bytes, exif, xmp);
+    else if (isWebp(bytes)) out = writeWebp(bytes, exif, xmp);
+    else return image;
+    return new Blob([out.slice()], { type: image.type });
+};
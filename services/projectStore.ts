@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Persists single-image editing sessions to IndexedDB so a reload or an
+// accidental "Start Over" does not lose the edit history. Full projects and
+// their lightweight summaries live in separate stores, so the "Recent projects"
+// list can be shown without reading every history image back into memory.
+
+import { type HistoryTree, type ManualAdjustments } from '../types';
+import { resampleImage } from './imageWorkerClient';
+
+const DB_CONFIG = {
+    NAME: 'vixel_ai_projects',
+    VERSION: 1,
+    PROJECTS_STORE: 'projects',
+    SUMMARIES_STORE: 'summaries',
+    MAX_RECENT: 12,
+    THUMBNAIL_SIZE: 256,
+};
+
+export interface ProjectPanelState {
+    activeTab: string;
+    manualAdjustments: ManualAdjustments;
+    aspect?: number;
+    brushSize: number;
+    brushHardness: number;
+    brushMode: 'brush' | 'erase';
+}
+
+export interface ProjectRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Every step of every branch; `currentId` is the step that was open. */
+    historyTree: HistoryTree;
+    /** Every prompt sent to the AI during this session, oldest first. */
+    prompts: string[];
+    panelState: ProjectPanelState;
+}
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    updatedAt: number;
+    stepCount: number;
+    thumbnail: Blob | null;
+}
+
+export const createProjectId = (): string => {
+    return typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `project-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_CONFIG.NAME, DB_CONFIG.VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(DB_CONFIG.PROJECTS_STORE)) {
+                    db.createObjectStore(DB_CONFIG.PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(DB_CONFIG.SUMMARIES_STORE)) {
+                    db.createObjectStore(DB_CONFIG.SUMMARIES_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Downscaled JPEG of the current step for the "Recent projects" list
+const createThumbnail = async (file: File): Promise<Blob | null> => {
+    try {
+        return await resampleImage(file, { maxDimension: DB_CONFIG.THUMBNAIL_SIZE, type: 'image/jpeg', quality: 0.8 });
+    } catch (e) {
+        console.warn('Failed to create project thumbnail', e);
+        return null;
+    }
+};
+
+/**
+ * Writes the project and its summary. The project is committed before the
+ * thumbnail is rendered, so a save started as the page closes keeps the
+ * history even if the thumbnail never arrives. Older projects beyond the
+ * recent-list limit are pruned so storage does not grow without bound.
+ */
+export const saveProject = async (project: ProjectRecord): Promise<void> => {
+    const { nodes, currentId } = project.historyTree;
+    const summary: ProjectSummary = {
+        id: project.id,
+        name: project.name,
+        updatedAt: project.updatedAt,
+        stepCount: Object.keys(nodes).length,
+        thumbnail: null,
+    };
+
+    const db = await openDatabase();
+    const tx = db.transaction([DB_CONFIG.PROJECTS_STORE, DB_CONFIG.SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(DB_CONFIG.PROJECTS_STORE).put(project);
+    const summaryStore = tx.objectStore(DB_CONFIG.SUMMARIES_STORE);
+    const previous = summaryStore.get(project.id);
+    previous.onsuccess = () => {
+        summaryStore.put({ ...summary, thumbnail: (previous.result as ProjectSummary | undefined)?.thumbnail ?? null });
+    };
+    await transactionDone(tx);
+
+    const currentFile = nodes[currentId]?.file;
+    const thumbnail = currentFile ? await createThumbnail(currentFile) : null;
+    if (thumbnail) {
+        const thumbnailTx = db.transaction(DB_CONFIG.SUMMARIES_STORE, 'readwrite');
+        thumbnailTx.objectStore(DB_CONFIG.SUMMARIES_STORE).put({ ...summary, thumbnail });
+        await transactionDone(thumbnailTx);
+    }
+
+    const summaries = await listProjects();
+    await Promise.all(summaries.slice(DB_CONFIG.MAX_RECENT).map(stale => deleteProject(stale.id)));
+};
+
+export const loadProject = async (id: string): Promise<ProjectRecord | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction(DB_CONFIG.PROJECTS_STORE, 'readonly');
+    const project = await requestToPromise<ProjectRecord | undefined>(tx.objectStore(DB_CONFIG.PROJECTS_STORE).get(id));
+    return project ?? null;
+};
+
+/**
+ * Returns project summaries, most recently edited first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(DB_CONFIG.SUMMARIES_STORE, 'readonly');
+    const summaries = await requestToPromise<ProjectSummary[]>(tx.objectStore(DB_CONFIG.SUMMARIES_STORE).getAll());
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([DB_CONFIG.PROJECTS_STORE, DB_CONFIG.SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(DB_CONFIG.PROJECTS_STORE).delete(id);
+    tx.objectStore(DB_CONFIG.SUMMARIES_STORE).delete(id);
+    await transactionDone(tx);
+};
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Disclosure of how an exported image was made: every step from the upload to
+// the exported one, with its operation, prompt and time. The same record is
+// embedded in the file's XMP and can be saved next to it as a JSON sidecar.
+
+import { HISTORY_OPERATION_LABELS, type HistoryEntry, type HistoryOperation, type HistoryTree } from '../types';
+import { describeParams, getLineage } from './historyService';
+import { escapeXml } from './exifCodec';
+import { PROVENANCE_SOFTWARE } from './metadataService';
+
+export interface ProvenanceStep {
+    /** Position in the edit history; 0 is the upload. */
+    index: number;
+    operation: HistoryOperation;
+    label: string;
+    /** Whether the step's pixels came from the AI model, directly or restored from an AI-edited step. */
+    aiGenerated: boolean;
+    prompt?: string;
+    /** Settings summary, as shown in the history timeline. */
+    details?: string;
+    /** ISO 8601. */
+    timestamp: string;
+}
+
+export interface ProvenanceManifest {
+    format: 'vixel-provenance';
+    version: 1;
+    generator: string;
+    sourceFile: string;
+    exportedFile: string;
+    exportedAt: string;
+    /** True if any step was produced by the AI model. */
+    aiEdited: boolean;
+    steps: ProvenanceStep[];
+}
+
+const PROVENANCE_NAMESPACE = 'http://ns.vixel.ai/provenance/1.0/';
+
+const AI_OPERATIONS: HistoryOperation[] = ['EDIT', 'FILTER', 'ADJUSTMENT', 'STYLE_TRANSFER'];
+
+/**
+ * Whether `entry` holds AI pixels. The history brush can restore pixels from a
+ * step on another branch, such as one that was undone, so its source's own
+ * lineage is checked as well.
+ */
+const isAIGenerated = (tree: HistoryTree, entry: HistoryEntry): boolean => {
+    if (AI_OPERATIONS.includes(entry.operation)) return true;
+    if (entry.operation !== 'MASK_COMPOSITION') return false;
+    if (entry.params?.aiBlend === true) return true;
+    const sourceNodeId = entry.params?.sourceNodeId;
+    return typeof sourceNodeId === 'string'
+        && getLineage(tree, sourceNodeId).some(source => isAIGenerated(tree, source));
+};
+
+/**
+ * The manifest for an export of the tree's current step.
+ */
+export const buildProvenanceManifest = (
+    tree: HistoryTree,
+    files: { sourceFile: string, exportedFile: string },
+    exportedAt: Date = new Date(),
+): ProvenanceManifest => {
+    const steps = getLineage(tree).map((entry, index): ProvenanceStep => ({
+        index,
+        operation: entry.operation,
+        label: HISTORY_OPERATION_LABELS[entry.operation],
+        aiGenerated: isAIGenerated(tree, entry),
+        prompt: entry.prompt,
+        details: describeParams(entry) ?? undefined,
+        timestamp: new Date(entry.createdAt).toISOString(),
+    }));
+    return {
+        format: 'vixel-provenance',
+        version: 1,
+        generator: PROVENANCE_SOFTWARE,
+        ...files,
+        exportedAt: exportedAt.toISOString(),
+        aiEdited: steps.some(step => step.aiGenerated),
+        steps,
+    };
+};
+
+const element = (name: string, value: string | undefined) =>
+    value ? `<vixel:${name}>${escapeXml(value)}</vixel:${name}>` : '';
+
+/**
+ * The manifest as an XMP structure, for buildXmp's extra namespaces and properties.
+ */
+export const provenanceToXmp = (manifest: ProvenanceManifest): { namespaces: Record<string, string>, properties: string[] } => {
+    const steps = manifest.steps.map(step => `<rdf:li rdf:parseType="Resource">${[
+        element('Index', String(step.index)),
+        element('Operation', step.operation),
+        element('Label', step.label),
+        element('AIGenerated', step.aiGenerated ? 'True' : 'False'),
+        element('Prompt', step.prompt),
+        element('Details', step.details),
+        element('Timestamp', step.timestamp),
+    ].join('')}</rdf:li>`);
+    const provenance = [
+        element('Generator', manifest.generator),
+        element('SourceFile', manifest.sourceFile),
+        element('ExportedAt', manifest.exportedAt),
+        element('AIEdited', manifest.aiEdited ? 'True' : 'False'),
+        `<vixel:Steps><rdf:Seq>${steps.join('')}</rdf:Seq></vixel:Steps>`,
+    ].join('');
+    return {
+        namespaces: { vixel: PROVENANCE_NAMESPACE },
+        properties: [`<vixel:Provenance rdf:parseType="Resource">${provenance}</vixel:Provenance>`],
+    };
+};
+
+/**
+ * Sidecar name for an exported file: "photo.jpg" → "photo.provenance.json".
+ */
+export const getSidecarFilename = (exportedFile: string): string =>
+    `${exportedFile.replace(/\.[^.]+$/, '')}.provenance.json`;
+
+export const createSidecar = (manifest: ProvenanceManifest): Blob =>
+    new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' });
@@ -2,3 +2,145 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import { type OperationType } from './services/budgetService';
+import { type ImageMetadata } from './services/exifCodec';
+
+/**
+ * What produced a history step: the original upload, one of the AI operations, or a local edit.
+ * Segmentation only produces a selection, never a step of its own.
+ */
+export type HistoryOperation = 'ORIGINAL' | Exclude<OperationType, 'SEGMENTATION'> | 'CROP' | 'MANUAL_ADJUSTMENT' | 'LAYERS';
+
+export const HISTORY_OPERATION_LABELS: Record<HistoryOperation, string> = {
+  ORIGINAL: 'Original',
+  EDIT: 'Retouch',
+  FILTER: 'Filter',
+  ADJUSTMENT: 'Adjustment',
+  STYLE_TRANSFER: 'Style Transfer',
+  MASK_COMPOSITION: 'History Brush',
+  CROP: 'Crop',
+  MANUAL_ADJUSTMENT: 'Manual Adjust',
+  LAYERS: 'Layers',
+};
+
+/** A tone-curve control point; both coordinates are 0–255 channel values. */
+export interface CurvePoint {
+  x: number;
+  y: number;
+}
+
+export type CurveChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+export type ToneCurves = Record<CurveChannel, CurvePoint[]>;
+
+export interface ManualAdjustments {
+  /** Exposure in stops (EV). */
+  exposure: number;
+  brightness: number;
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  whites: number;
+  blacks: number;
+  /** Warm (+) / cool (−) white balance shift. */
+  temperature: number;
+  /** Magenta (+) / green (−) white balance shift. */
+  tint: number;
+  saturation: number;
+  hue: number;
+  vibrance: number;
+  clarity: number;
+  sharpness: number;
+  /** Darkens (−) or lightens (+) the corners. */
+  vignette: number;
+  toneCurve: ToneCurves;
+}
+
+/**
+ * How a layer combines with the layers below it.
+ */
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'soft-light' | 'hard-light' | 'difference' | 'color' | 'luminosity';
+
+export const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  darken: 'Darken',
+  lighten: 'Lighten',
+  'soft-light': 'Soft Light',
+  'hard-light': 'Hard Light',
+  difference: 'Difference',
+  color: 'Color',
+  luminosity: 'Luminosity',
+};
+
+/**
+ * `base` is the starting image, `edit` the change an AI result made,
+ * `adjustment` a set of manual adjustments applied to everything below, and
+ * `mask` pixels restored from an earlier step with the history brush.
+ */
+export type LayerKind = 'base' | 'edit' | 'adjustment' | 'mask';
+
+export interface Layer {
+  id: string;
+  kind: LayerKind;
+  name: string;
+  visible: boolean;
+  /** 0–1. */
+  opacity: number;
+  blendMode: BlendMode;
+  /** Pixels of base and mask layers; resampled to the base size when rendered. */
+  image?: File;
+  /**
+   * What an edit layer changed, added to the layers below it: `lift` holds the
+   * per-channel increases and `drop` the decreases, both as opaque images.
+   * Adjustment layers get one when cropped, since settings such as the
+   * vignette centre would land elsewhere if re-applied to the cropped image.
+   */
+  difference?: { lift: File, drop: File };
+  /** Where the layer shows: white reveals it, black hides it. */
+  mask?: File;
+  /** Width of the mask's feathered edge in pixels; defaults to a small fraction of the image size. */
+  featherRadius?: number;
+  /** Settings of an adjustment layer. */
+  adjustments?: ManualAdjustments;
+}
+
+/**
+ * A single step in the edit history: the resulting image plus how it was made.
+ */
+export interface HistoryEntry {
+  id: string;
+  file: File;
+  operation: HistoryOperation;
+  /** The user's prompt, for AI operations. */
+  prompt?: string;
+  /** Operation-specific settings, e.g. the crop rectangle or adjustment values. */
+  params?: Record<string, unknown>;
+  /**
+   * The layer stack that `file` is a flattened render of. Missing when `file`
+   * is the only layer, e.g. the original upload.
+   */
+  layers?: Layer[];
+  /** Camera and authorship metadata of the upload, carried to every later step and written back on export. */
+  metadata?: ImageMetadata;
+  createdAt: number;
+}
+
+/**
+ * A history entry placed in the branching history tree.
+ */
+export interface HistoryNode extends HistoryEntry {
+  parentId: string | null;
+  childIds: string[];
+  /** The child that redo follows: the most recently created or visited one. */
+  activeChildId: string | null;
+}
+
+export interface HistoryTree {
+  nodes: Record<string, HistoryNode>;
+  rootId: string;
+  currentId: string;
+}
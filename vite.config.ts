@@ -11,15 +11,25 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   
   const apiKey = env.VITE_GEMINI_API_KEY || env.API_KEY || '';
+  // AI provider selection: 'backend' (Go server) or 'mock' (offline, deterministic).
+  const aiProvider = env.VITE_AI_PROVIDER || 'backend';
+  const backendUrl = env.VITE_BACKEND_URL || 'http://localhost:8080';
+  const mockLatencyMs = env.VITE_MOCK_LATENCY_MS || '0';
 
   return {
     define: {
       // 1. Direct replacement of the string 'process.env.API_KEY'
       'process.env.API_KEY': JSON.stringify(apiKey),
+      'process.env.AI_PROVIDER': JSON.stringify(aiProvider),
+      'process.env.BACKEND_URL': JSON.stringify(backendUrl),
+      'process.env.MOCK_LATENCY_MS': JSON.stringify(mockLatencyMs),
       
       // 2. Provision of a global process.env object to avoid 'process is not defined' errors
       'process.env': {
-        API_KEY: JSON.stringify(apiKey)
+        API_KEY: JSON.stringify(apiKey),
+        AI_PROVIDER: JSON.stringify(aiProvider),
+        BACKEND_URL: JSON.stringify(backendUrl),
+        MOCK_LATENCY_MS: JSON.stringify(mockLatencyMs)
       }
     },
     server: {